@@ -0,0 +1,168 @@
+/**
+ * Locale message catalogs for loomstr templates.
+ * Holds one template per message id and locale, resolves lookups through a fallback chain
+ * (de-AT -> de -> en) and checks translations against their source-locale message.
+ */
+
+import type {
+  CatalogIssue,
+  CatalogOptions,
+  CatalogSources,
+  DefaultDelimiters,
+  Delimiters,
+  MessageCatalog,
+  Template,
+  TemplatePolicy,
+} from './types';
+import { DEFAULT_DELIMITERS } from './parser';
+import { compile } from './template';
+import { mergePolicy } from './filters';
+import { slotNames } from './utils';
+
+/** Names of the filters a template uses, on slots and section subjects alike */
+function filterNames(t: Template<string, Delimiters>): Set<string> {
+  const names = new Set<string>();
+  for (const slot of t.slots) {
+    for (const filter of slot.filters ?? []) names.add(filter.name);
+    if (slot.filter) names.add(slot.filter);
+  }
+  return names;
+}
+
+/**
+ * Compare a translation with its source message.
+ * Slots are compared by name (slotNames), so a dropped or added slot is reported once
+ * however often it is used.
+ */
+function compareMessages(
+  id: string,
+  locale: string,
+  source: Template<string, Delimiters>,
+  translation: Template<string, Delimiters>
+): CatalogIssue[] {
+  const issues: CatalogIssue[] = [];
+  const expected = slotNames(source);
+  const actual = slotNames(translation);
+  for (const name of expected) {
+    if (!actual.includes(name)) issues.push({ id, locale, kind: 'missing-slot', name });
+  }
+  for (const name of actual) {
+    if (!expected.includes(name)) issues.push({ id, locale, kind: 'unknown-slot', name });
+  }
+  const allowed = filterNames(source);
+  for (const name of filterNames(translation)) {
+    if (!allowed.has(name)) issues.push({ id, locale, kind: 'unknown-filter', name });
+  }
+  return issues;
+}
+
+/**
+ * Create a catalog of messages by id and locale.
+ * Entries are compiled templates or raw sources. Every message needs a source-locale entry,
+ * which types the message and is the last fallback of every lookup. Locale tags match
+ * regardless of case, and `_` is read as `-` (`pt_BR` is `pt-BR`).
+ *
+ * @param messages - Message entries by id, then by locale
+ * @param options - Optional source locale (default 'en') and delimiters of raw sources
+ * @returns Catalog with get, render, fallbacks and check
+ * @throws Error if a message has no source-locale entry or a template entry was compiled
+ * with other delimiters
+ * @throws LoomParseError for malformed raw sources
+ *
+ * @example
+ * ```typescript
+ * const messages = catalog({
+ *   inbox: {
+ *     en: '{count|plural#one:"# new message",other:"# new messages"}',
+ *     de: '{count|plural#one:"# neue Nachricht",other:"# neue Nachrichten"}',
+ *   },
+ * });
+ * messages.render('inbox', 'de-AT', { count: 2 }); // "2 neue Nachrichten"
+ * messages.render('inbox', 'fr', { count: 1 }); // "1 new message"
+ * messages.check(); // { ok: true, issues: [] }
+ * ```
+ */
+export function catalog<
+  const M extends Record<string, Record<string, string | Template<string, D>>>,
+  const D extends Delimiters = DefaultDelimiters,
+  const L extends string = 'en',
+>(messages: M, options?: CatalogOptions<D, L>): MessageCatalog<CatalogSources<M, L>, D> {
+  type Sources = CatalogSources<M, L>;
+  type Instance = MessageCatalog<Sources, D>;
+  const delimiters = (options?.delimiters ?? DEFAULT_DELIMITERS) as D;
+  const sourceLocale = (options?.sourceLocale ?? 'en').replace(/_/g, '-');
+  const sourceKey = sourceLocale.toLowerCase();
+
+  // templates by id, then by lower-cased locale, with the locale as written
+  const compiled = new Map<string, Map<string, [string, Template<string, D>]>>();
+  const locales = new Map<string, string>();
+  for (const [id, entries] of Object.entries(messages)) {
+    const byLocale = new Map<string, [string, Template<string, D>]>();
+    for (const [locale, entry] of Object.entries(entries)) {
+      let t: Template<string, D>;
+      if (typeof entry === 'string') {
+        t = compile(entry, { delimiters }) as Template<string, D>;
+      } else if (entry.delimiters[0] !== delimiters[0] || entry.delimiters[1] !== delimiters[1]) {
+        throw new Error(`catalog: message "${id}" (${locale}) uses different delimiters`);
+      } else {
+        t = entry;
+      }
+      const tag = locale.replace(/_/g, '-');
+      byLocale.set(tag.toLowerCase(), [tag, t]);
+      if (!locales.has(tag.toLowerCase())) locales.set(tag.toLowerCase(), tag);
+    }
+    if (!byLocale.has(sourceKey)) {
+      throw new Error(`catalog: message "${id}" has no "${sourceLocale}" source`);
+    }
+    compiled.set(id, byLocale);
+  }
+
+  const fallbacks = (locale: string): readonly string[] => {
+    const chain: string[] = [];
+    const subtags = locale.split(/[-_]/);
+    for (let n = subtags.length; n > 0; n--) {
+      const tag = subtags.slice(0, n).join('-');
+      if (tag) chain.push(tag);
+    }
+    if (!chain.some(tag => tag.toLowerCase() === sourceKey)) chain.push(sourceLocale);
+    return Object.freeze(chain);
+  };
+
+  const resolve = (id: string, locale: string) => {
+    const byLocale = compiled.get(id);
+    if (!byLocale) throw new Error(`catalog: unknown message "${id}"`);
+    // the chain ends with the source locale, which every message has
+    const tag = fallbacks(locale).find(candidate => byLocale.has(candidate.toLowerCase()))!;
+    const [found, template] = byLocale.get(tag.toLowerCase())!;
+    return Object.freeze({ template, locale: found });
+  };
+
+  const instance: Instance = {
+    sourceLocale,
+    ids: Object.freeze([...compiled.keys()]) as readonly (keyof Sources & string)[],
+    locales: Object.freeze([...locales.values()]),
+
+    fallbacks,
+
+    resolve: resolve as Instance['resolve'],
+
+    get: ((id: string, locale: string) => resolve(id, locale).template) as Instance['get'],
+
+    render: ((id: string, locale: string, params: never, policy?: TemplatePolicy) => {
+      const found = resolve(id, locale);
+      return found.template.render(params, mergePolicy({ locale: found.locale }, policy));
+    }) as Instance['render'],
+
+    check() {
+      const issues: CatalogIssue[] = [];
+      for (const [id, byLocale] of compiled) {
+        const source = byLocale.get(sourceKey)![1];
+        for (const [key, [locale, t]] of byLocale) {
+          if (key !== sourceKey) issues.push(...compareMessages(id, locale, source, t));
+        }
+      }
+      return { ok: issues.length === 0, issues: Object.freeze(issues) };
+    },
+  };
+  return Object.freeze(instance);
+}
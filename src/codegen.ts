@@ -0,0 +1,257 @@
+/**
+ * Render function compiler for loomstr templates.
+ * Turns a parsed node tree into a render function specialised for one resolved policy:
+ * slot paths are unrolled, filters are looked up and bound once, and sections become plain
+ * branches and loops. Where `new Function` is not allowed, the same tree is built from closures.
+ */
+
+import type { ResolvedPolicy, SlotDescriptor, TemplateNode } from './types';
+import { type Stringify, stringifier } from './escape';
+import { checkFilter } from './filters';
+import { isSecret } from './redact';
+import { MISSING, bindSteps, filterChain, isTruthy, lookupSlot, slotValue } from './template';
+
+/**
+ * Render function for a params record.
+ * @internal
+ */
+export type Renderer = (record: Record<string, unknown>) => string;
+
+/**
+ * A render function with the JavaScript it was generated from, if any.
+ * @internal
+ */
+export interface CompiledRenderer {
+  readonly render: Renderer;
+  readonly code?: string;
+}
+
+/** Section-local bindings ({#each} aliases and loop variables) */
+type Locals = Record<string, unknown>;
+
+/** Expressions holding the section locals in scope, by local name */
+type Scope = ReadonlyMap<string, string>;
+
+/** Renders a node list for a params record and the enclosing section locals */
+type Emit = (record: Record<string, unknown>, locals: Locals | undefined) => string;
+
+let generationAllowed: boolean | undefined;
+
+/**
+ * Whether the environment lets `new Function` compile code; probed once.
+ * @internal
+ */
+export function canGenerate(): boolean {
+  if (generationAllowed === undefined) {
+    try {
+      generationAllowed = new Function('return true')() === true;
+    } catch {
+      generationAllowed = false;
+    }
+  }
+  return generationAllowed;
+}
+
+/**
+ * Check that a resolved policy has every filter the slots use, with arguments its typed
+ * filters (and plural, ordinal and select cases) accept.
+ *
+ * @param slots - The template's slots, section subjects included
+ * @param rp - Resolved policy to check
+ * @throws Error for the first unknown filter or bad argument, as rendering would
+ * @internal
+ */
+export function checkPolicyFilters(slots: readonly SlotDescriptor[], rp: ResolvedPolicy): void {
+  for (const slot of slots) {
+    for (const segment of filterChain(slot) ?? []) {
+      const fn = rp.filters[segment.name];
+      if (!fn) throw new Error(`Unknown filter "${segment.name}"`);
+      const checked = checkFilter(fn, segment);
+      if (!checked.ok) throw new Error(checked.reason);
+    }
+  }
+}
+
+/** Look up and evaluate a slot (see slotValue), with its transform and filters bound once */
+function slotClosure(
+  slot: SlotDescriptor,
+  rp: ResolvedPolicy
+): (record: Record<string, unknown>, locals: Locals | undefined) => unknown {
+  const steps = bindSteps(slot, rp);
+  return (record, locals) => slotValue(slot, lookupSlot(record, slot, locals), rp, false, steps);
+}
+
+/** Build a node list from closures */
+function nodesClosure(
+  nodes: readonly TemplateNode[],
+  rp: ResolvedPolicy,
+  str: Stringify
+): Emit {
+  const parts = nodes.map(node => nodeClosure(node, rp, str));
+  return (record, locals) => {
+    let out = '';
+    for (const part of parts) out += part(record, locals);
+    return out;
+  };
+}
+
+/** Build a single node from closures */
+function nodeClosure(node: TemplateNode, rp: ResolvedPolicy, str: Stringify): Emit {
+  switch (node.kind) {
+    case 'text': {
+      const text = node.value;
+      return () => text;
+    }
+    case 'slot': {
+      const evaluate = slotClosure(node.slot, rp);
+      const slot = node.slot;
+      return (record, locals) => str(slot, evaluate(record, locals));
+    }
+    case 'if': {
+      const condition = slotClosure(node.condition, rp);
+      const body = nodesClosure(node.body, rp, str);
+      const elseBody = nodesClosure(node.elseBody, rp, str);
+      return (record, locals) =>
+        isTruthy(condition(record, locals)) !== node.negate
+          ? body(record, locals)
+          : elseBody(record, locals);
+    }
+    case 'each': {
+      const collection = slotClosure(node.collection, rp);
+      const body = nodesClosure(node.body, rp, str);
+      const elseBody = nodesClosure(node.elseBody, rp, str);
+      const message = `Expected an array for {#each ${node.collection.name}}`;
+      return (record, locals) => {
+        const found = collection(record, locals);
+        const items = found === '' && node.collection.optional ? [] : found;
+        if (!Array.isArray(items)) throw new Error(message);
+        if (items.length === 0) return elseBody(record, locals);
+        let out = '';
+        for (let k = 0; k < items.length; k++) {
+          const scope: Locals = {
+            ...locals,
+            [node.alias]: items[k],
+            '@index': k,
+            '@first': k === 0,
+            '@last': k === items.length - 1,
+          };
+          out += body(record, scope);
+        }
+        return out;
+      };
+    }
+  }
+}
+
+/**
+ * Generate the JavaScript source of a render function.
+ * Values that cannot be written as literals (the policy, bound steps, slot descriptors)
+ * are read from the `K` array the source is compiled with. Section locals are resolved while
+ * generating, to the loop variables that hold them, so rendering allocates no scope objects.
+ */
+function generateSource(nodes: readonly TemplateNode[], rp: ResolvedPolicy) {
+  const refs: unknown[] = [];
+  const ref = (value: unknown) => `K[${refs.push(value) - 1}]`;
+  // escaping output, and the output of secret slots (whose asString errors are withheld), goes
+  // through the template's stringifier with the slot it is for
+  const stringify = ref(stringifier(nodes, rp));
+  const policy = ref(rp);
+  let loops = 0;
+
+  // leaves the slot's value in `v`; scope maps local names to the expressions holding them
+  const slotCode = (slot: SlotDescriptor, scope: Scope): string[] => {
+    const path = slot.path ?? [slot.name];
+    const lines = [`v = ${slot.local ? (scope.get(path[0]!) ?? 'M') : 'r'};`];
+    for (const segment of slot.local ? path.slice(1) : path) {
+      const key = JSON.stringify(segment);
+      lines.push(`v = v !== null && typeof v === 'object' && has.call(v, ${key}) ? v[${key}] : M;`);
+    }
+    lines.push(`v = value(${ref(slot)}, v, ${policy}, false, ${ref(bindSteps(slot, rp))});`);
+    return lines;
+  };
+
+  const nodesCode = (list: readonly TemplateNode[], scope: Scope): string[] =>
+    list.flatMap(node => nodeCode(node, scope));
+
+  const nodeCode = (node: TemplateNode, scope: Scope): string[] => {
+    switch (node.kind) {
+      case 'text':
+        return [`out += ${JSON.stringify(node.value)};`];
+      case 'slot':
+        return [
+          ...slotCode(node.slot, scope),
+          rp.escape === 'html' || isSecret(node.slot, rp)
+            ? `out += ${stringify}(${ref(node.slot)}, v);`
+            : 'out += str(v);',
+        ];
+      case 'if':
+        return [
+          ...slotCode(node.condition, scope),
+          `if (${node.negate ? '!' : ''}truthy(v)) {`,
+          ...nodesCode(node.body, scope),
+          '} else {',
+          ...nodesCode(node.elseBody, scope),
+          '}',
+        ];
+      case 'each': {
+        const n = ++loops;
+        const [items, k] = [`a${n}`, `k${n}`];
+        const inner = new Map(scope)
+          .set(node.alias, `${items}[${k}]`)
+          .set('@index', k)
+          .set('@first', `(${k} === 0)`)
+          .set('@last', `(${k} === ${items}.length - 1)`);
+        const message = JSON.stringify(`Expected an array for {#each ${node.collection.name}}`);
+        return [
+          '{',
+          ...slotCode(node.collection, scope),
+          `const ${items} = ${node.collection.optional ? "v === '' ? [] : v" : 'v'};`,
+          `if (!Array.isArray(${items})) throw new Error(${message});`,
+          `if (${items}.length === 0) {`,
+          ...nodesCode(node.elseBody, scope),
+          `} else for (let ${k} = 0; ${k} < ${items}.length; ${k}++) {`,
+          ...nodesCode(node.body, inner),
+          '}',
+          '}',
+        ];
+      }
+    }
+  };
+
+  const code = [
+    'return function render(r) {',
+    "let v, out = '';",
+    ...nodesCode(nodes, new Map()),
+    'return out;',
+    '};',
+  ].join('\n');
+  return { code, refs };
+}
+
+/**
+ * Compile a node tree into a render function for one resolved policy.
+ * Filters are looked up and their typed arguments converted once, here; errors for missing
+ * values, unknown filters and bad arguments are thrown at render time, as by the interpreter.
+ *
+ * @param nodes - The template's node tree
+ * @param rp - Resolved policy the function renders with
+ * @param closures - Build from closures even where `new Function` is allowed
+ * @returns The render function, with its generated source when code was generated
+ * @internal
+ */
+export function compileRenderer(
+  nodes: readonly TemplateNode[],
+  rp: ResolvedPolicy,
+  closures = false
+): CompiledRenderer {
+  if (!closures && canGenerate()) {
+    const { code, refs } = generateSource(nodes, rp);
+    const args = ['K', 'M', 'has', 'str', 'truthy', 'value'];
+    const factory = new Function(...args, `'use strict';\n${code}`);
+    const has = Object.prototype.hasOwnProperty;
+    const render = factory(refs, MISSING, has, rp.asString, isTruthy, slotValue);
+    return { render: render as Renderer, code };
+  }
+  const emit = nodesClosure(nodes, rp, stringifier(nodes, rp));
+  return { render: record => emit(record, undefined) };
+}
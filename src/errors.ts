@@ -0,0 +1,87 @@
+/**
+ * Error types for loomstr templates.
+ * Provides the structured parse error thrown by the parser and code frame rendering.
+ */
+
+import type { ParseErrorCode, SourceRange } from './types';
+
+/**
+ * Render a printable code frame pointing at a range of a template source.
+ * Shows the offending line with one line of context on each side and a caret
+ * underline below the range.
+ *
+ * @param source - The full template source
+ * @param range - The range to highlight
+ * @returns Multi-line code frame string
+ *
+ * @example
+ * ```typescript
+ * codeFrame("Hi {name|}", range);
+ * // > 1 | Hi {name|}
+ * //     |         ^
+ * ```
+ */
+export function codeFrame(source: string, range: SourceRange): string {
+  const lines = source.split(/\r\n|\r|\n/);
+  const { line, column } = range.start;
+  const first = Math.max(1, line - 1);
+  const last = Math.min(lines.length, line + 1);
+  const gutter = String(last).length;
+
+  const out: string[] = [];
+  for (let l = first; l <= last; l++) {
+    const text = lines[l - 1] ?? '';
+    const num = String(l).padStart(gutter);
+    out.push(`${l === line ? '>' : ' '} ${num} | ${text}`);
+    if (l !== line) continue;
+
+    // keep tabs so the caret lines up with the source as printed
+    const lead = text.slice(0, column - 1).replace(/[^\t]/g, ' ');
+    const sameLine = range.end.line === line ? range.end.column : text.length + 1;
+    const width = Math.max(1, Math.min(sameLine, text.length + 1) - column);
+    out.push(`  ${' '.repeat(gutter)} | ${lead}${'^'.repeat(width)}`);
+  }
+  return out.join('\n');
+}
+
+/**
+ * Error thrown when a template source cannot be parsed.
+ * Carries a stable error code, the offending source range and a code frame
+ * so tooling can point at the exact character.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   loom.compile("Hello {name|}");
+ * } catch (e) {
+ *   if (e instanceof LoomParseError) {
+ *     console.error(e.code, e.range.start.line, e.range.start.column);
+ *     console.error(e.frame);
+ *   }
+ * }
+ * ```
+ */
+export class LoomParseError extends Error {
+  override readonly name = 'LoomParseError';
+
+  /** Printable code frame with a caret under the offending range */
+  readonly frame: string;
+
+  /**
+   * Create a new parse error.
+   *
+   * @param code - Stable machine-readable error code
+   * @param reason - Human-readable description without location
+   * @param range - Offending range in the template source
+   * @param source - The template source that failed to parse
+   */
+  constructor(
+    public readonly code: ParseErrorCode,
+    public readonly reason: string,
+    public readonly range: SourceRange,
+    public readonly source: string
+  ) {
+    super(`${reason} at line ${range.start.line}, column ${range.start.column}`);
+    this.frame = codeFrame(source, range);
+  }
+}
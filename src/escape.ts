@@ -0,0 +1,455 @@
+/**
+ * Contextual auto-escaping for loomstr templates.
+ * With `escape: 'html'` the template text is read as HTML, and each slot is encoded for the
+ * context its text puts it in: element content, attribute value, URL attribute, script or
+ * event handler (inside or outside a JavaScript string). Contexts are worked out once per
+ * template, from the static text alone.
+ */
+
+import type { ResolvedPolicy, SlotDescriptor, TemplateNode } from './types';
+import { slotString } from './redact';
+
+/**
+ * Text that is output as it is, without escaping: trusted markup, or a value already encoded
+ * for its context. The `raw` filter marks slot values as safe.
+ *
+ * @example
+ * ```typescript
+ * const t = loom.compile("<p>{intro}</p>{footer}");
+ * t.render({ intro: "<b>hi</b>", footer: new SafeString("<hr>") }, { escape: 'html' });
+ * // "<p>&lt;b&gt;hi&lt;/b&gt;</p><hr>"
+ * ```
+ */
+export class SafeString {
+  /**
+   * @param value - The text to output unescaped
+   */
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+/**
+ * Converts a slot's value to output text.
+ * @internal
+ */
+export type Stringify = (slot: SlotDescriptor, value: unknown) => string;
+
+/** Encodes a slot value for its context, converting it to a string with asString as needed */
+type Encoder = (value: unknown, asString: (value: unknown) => string) => string;
+
+/** Where the HTML tokenizer is in the template text */
+type Mode =
+  | 'text'
+  | 'comment'
+  | 'tagName'
+  | 'tag'
+  | 'attrName'
+  | 'afterAttrName'
+  | 'beforeValue'
+  | 'value'
+  | 'script'
+  | 'style';
+
+/**
+ * Tokenizer state: the mode plus what the context of a slot depends on.
+ * `js` is the JavaScript lexical state inside a script or event handler: '' in code, the
+ * quote character inside a string, '//' or '/*' inside a comment.
+ */
+interface HtmlState {
+  mode: Mode;
+  /** Name of the tag being read (lower case) */
+  tag: string;
+  closing: boolean;
+  /** Name of the attribute being read (lower case) */
+  attr: string;
+  /** Quote of the attribute value; '' when unquoted */
+  quote: string;
+  /** Nothing has been written to the attribute value yet */
+  valueStart: boolean;
+  js: string;
+}
+
+const INITIAL: HtmlState = {
+  mode: 'text',
+  tag: '',
+  closing: false,
+  attr: '',
+  quote: '',
+  valueStart: false,
+  js: '',
+};
+
+/** Attributes whose values are URLs */
+const URL_ATTRIBUTES = new Set([
+  'action',
+  'background',
+  'cite',
+  'codebase',
+  'data',
+  'formaction',
+  'href',
+  'icon',
+  'longdesc',
+  'manifest',
+  'ping',
+  'poster',
+  'src',
+  'usemap',
+  'xlink:href',
+]);
+
+/** URL schemes a slot may start a URL with */
+const SAFE_SCHEME = /^(?:https?|mailto|tel):/i;
+
+/** Output for a URL with any other scheme */
+const UNSAFE_URL = 'about:invalid#loomstr';
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, c => HTML_ENTITIES[c]!);
+
+/** Unquoted attribute values end at any space or markup character: encode all but a few */
+const escapeUnquoted = (s: string) =>
+  s.replace(/[^\w.-]/gu, c => `&#x${c.codePointAt(0)!.toString(16)};`);
+
+const unicodeEscape = (c: string) => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`;
+
+/** Escape text for the inside of a JavaScript string of any quote, template literals included */
+const escapeJsString = (s: string) =>
+  s.replace(/[\p{Cc}\\'"`$<>&\u2028\u2029]/gu, unicodeEscape);
+
+/** Percent-encode one code point; unpaired surrogates become U+FFFD */
+const percent = (c: string) =>
+  /[\ud800-\udfff]/u.test(c) ? '%EF%BF%BD' : encodeURIComponent(c);
+
+/** A whole URL: unsafe schemes are replaced, characters URLs may not hold are encoded */
+function sanitizeUrl(s: string): string {
+  const probe = s.replace(/[\p{Cc} ]/gu, '');
+  if (/^[a-z][a-z0-9+.-]*:/i.test(probe) && !SAFE_SCHEME.test(probe)) return UNSAFE_URL;
+  return s.replace(/[^\w\-.~:/?#[\]@!$&'()*+,;=%]/gu, percent);
+}
+
+/** A srcset list of `url descriptors` candidates: the URL of every candidate is sanitized */
+const sanitizeSrcset = (s: string) =>
+  s
+    .split(',')
+    .map(candidate => candidate.replace(/^(\s*)(\S*)/, (_, space, url) => space + sanitizeUrl(url)))
+    .join(',');
+
+/** A piece of a URL (path segment, query value): everything but unreserved characters */
+const encodeUrlPart = (s: string) => s.replace(/[^\w\-.~]/gu, percent);
+
+/** A JavaScript literal for the value: JSON, or a string of it when JSON cannot hold it */
+function jsValue(value: unknown, asString: (value: unknown) => string): string {
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(value);
+  } catch {
+    json = undefined;
+  }
+  return (json ?? JSON.stringify(asString(value))).replace(/[<>&\u2028\u2029]/g, unicodeEscape);
+}
+
+/** Advance the JavaScript lexical state over text[i]; returns how many more characters it took */
+function jsStep(s: HtmlState, text: string, i: number): number {
+  const c = text[i]!;
+  switch (s.js) {
+    case '':
+      if (c === '"' || c === "'" || c === '`') s.js = c;
+      else if (c === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+        s.js = c + text[i + 1]!;
+        return 1;
+      }
+      return 0;
+    case '//':
+      if (c === '\n') s.js = '';
+      return 0;
+    case '/*':
+      if (c === '*' && text[i + 1] === '/') {
+        s.js = '';
+        return 1;
+      }
+      return 0;
+    default:
+      if (c === '\\') return 1;
+      if (c === s.js) s.js = '';
+      return 0;
+  }
+}
+
+/** Leave a tag at its '>' */
+function endTag(s: HtmlState): void {
+  const element = s.closing ? '' : s.tag;
+  Object.assign(s, INITIAL);
+  if (element === 'script' || element === 'style') s.mode = element;
+}
+
+/** Enter an attribute value */
+function startValue(s: HtmlState, quote: string): void {
+  s.mode = 'value';
+  s.quote = quote;
+  s.valueStart = true;
+  s.js = '';
+}
+
+/** Leave an attribute value, back between attributes */
+function endValue(s: HtmlState): void {
+  Object.assign(s, { mode: 'tag', attr: '', quote: '', valueStart: false, js: '' });
+}
+
+/** Enter the closing tag of a script or style element */
+function closeRawText(s: HtmlState): void {
+  Object.assign(s, INITIAL, { mode: 'tagName', closing: true });
+}
+
+/** The tokenizer state after reading a piece of template text */
+function advance(from: HtmlState, text: string): HtmlState {
+  const s = { ...from };
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]!;
+    switch (s.mode) {
+      case 'text':
+        if (c !== '<') break;
+        if (text.startsWith('!--', i + 1)) {
+          s.mode = 'comment';
+          i += 3;
+        } else if (i + 1 === text.length || /[a-z/]/i.test(text[i + 1]!)) {
+          // a `<` ending the text may be followed by a slot: take it as the start of a tag
+          s.mode = 'tagName';
+          s.closing = text[i + 1] === '/';
+          if (s.closing) i++;
+        }
+        break;
+      case 'comment':
+        if (text.startsWith('-->', i)) {
+          s.mode = 'text';
+          i += 2;
+        }
+        break;
+      case 'tagName':
+        if (c === '>') endTag(s);
+        else if (/[\s/]/.test(c)) s.mode = 'tag';
+        else s.tag += c.toLowerCase();
+        break;
+      case 'tag':
+        if (c === '>') endTag(s);
+        else if (!/[\s/]/.test(c)) {
+          s.mode = 'attrName';
+          s.attr = c.toLowerCase();
+        }
+        break;
+      case 'attrName':
+        if (c === '>') endTag(s);
+        else if (c === '=') s.mode = 'beforeValue';
+        else if (/[\s/]/.test(c)) s.mode = 'afterAttrName';
+        else s.attr += c.toLowerCase();
+        break;
+      case 'afterAttrName':
+        if (c === '>') endTag(s);
+        else if (c === '=') s.mode = 'beforeValue';
+        else if (!/[\s/]/.test(c)) {
+          s.mode = 'attrName';
+          s.attr = c.toLowerCase();
+        }
+        break;
+      case 'beforeValue':
+        if (c === '>') endTag(s);
+        else if (c === '"' || c === "'") startValue(s, c);
+        else if (!/\s/.test(c)) {
+          startValue(s, '');
+          i--;
+        }
+        break;
+      case 'value':
+        if (s.quote ? c === s.quote : /\s/.test(c)) endValue(s);
+        else if (!s.quote && c === '>') endTag(s);
+        else {
+          // in srcset, a comma and the spaces after it start the next candidate's URL
+          s.valueStart = s.attr === 'srcset' && (c === ',' || (s.valueStart && /\s/.test(c)));
+          if (s.attr.startsWith('on')) i += jsStep(s, text, i);
+        }
+        break;
+      case 'script':
+        if (text.slice(i, i + 8).toLowerCase() === '</script') {
+          closeRawText(s);
+          i++;
+        } else i += jsStep(s, text, i);
+        break;
+      case 'style':
+        if (text.slice(i, i + 7).toLowerCase() === '</style') {
+          closeRawText(s);
+          i++;
+        }
+        break;
+    }
+  }
+  return s;
+}
+
+/** Key telling states apart, for checking that sections end where they started */
+const stateKey = (s: HtmlState) =>
+  [s.mode, s.tag, s.closing, s.attr, s.quote, s.valueStart, s.js].join('\u0000');
+
+/** Encoder converting the value with asString, then encoding the text */
+const textEncoder =
+  (encode: (s: string) => string): Encoder =>
+  (value, asString) =>
+    encode(asString(value));
+
+/** Encoder refusing a slot whose context cannot be escaped */
+function unsupported(slot: SlotDescriptor, where: string): Encoder {
+  const message =
+    `Cannot escape slot "${slot.name}" ${where}; ` +
+    'mark a value that is safe there with |raw or SafeString';
+  return () => {
+    throw new Error(message);
+  };
+}
+
+/** JavaScript encoder for the lexical state, before any attribute encoding */
+function scriptEncoder(js: string): Encoder | undefined {
+  if (js === '') return jsValue;
+  if (js === '//' || js === '/*') return undefined;
+  return textEncoder(escapeJsString);
+}
+
+/** The encoder for a slot read in the given state, and the state after it */
+function slotContext(slot: SlotDescriptor, from: HtmlState): [Encoder, HtmlState] {
+  switch (from.mode) {
+    case 'text':
+    case 'comment':
+      return [textEncoder(escapeHtml), from];
+    case 'script':
+      return [scriptEncoder(from.js) ?? unsupported(slot, 'in a script comment'), from];
+    case 'style':
+      return [unsupported(slot, 'in a style element'), from];
+    case 'beforeValue':
+    case 'value': {
+      const s = from.mode === 'value' ? { ...from } : { ...from, mode: 'value' as const };
+      const start = from.mode === 'beforeValue' || from.valueStart;
+      s.valueStart = false;
+      const attribute = s.quote ? escapeHtml : escapeUnquoted;
+      let encode: Encoder | undefined;
+      // CSS, and srcdoc documents (entity-decoded into live markup), have no safe encoding
+      if (s.attr === 'style' || s.attr === 'srcdoc') {
+        return [unsupported(slot, `in a ${s.attr} attribute`), s];
+      }
+      if (s.attr.startsWith('on')) {
+        encode = scriptEncoder(s.js);
+        if (!encode) return [unsupported(slot, 'in a script comment'), s];
+      } else if (s.attr === 'srcset') {
+        encode = textEncoder(start ? sanitizeSrcset : encodeUrlPart);
+      } else if (URL_ATTRIBUTES.has(s.attr)) {
+        encode = textEncoder(start ? sanitizeUrl : encodeUrlPart);
+      }
+      const inner = encode;
+      return [
+        inner
+          ? (value, asString) => attribute(inner(value, asString))
+          : textEncoder(attribute),
+        s,
+      ];
+    }
+    default: {
+      // a slot right after `<` would write the tag name itself
+      const tag = `${from.closing ? '/' : ''}${from.tag || '…'}`;
+      return [unsupported(slot, `inside the tag <${tag}>`), from];
+    }
+  }
+}
+
+/**
+ * Work out the context of each slot in a node list.
+ * Sections must end in the context they started in (both branches of an {#if}, every
+ * iteration of an {#each}), so a slot after them has one context whichever way they render.
+ */
+function contexts(
+  nodes: readonly TemplateNode[],
+  from: HtmlState,
+  encoders: Map<SlotDescriptor, Encoder>
+): HtmlState {
+  let s = from;
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        s = advance(s, node.value);
+        break;
+      case 'slot': {
+        const [encoder, next] = slotContext(node.slot, s);
+        encoders.set(node.slot, encoder);
+        s = next;
+        break;
+      }
+      case 'if': {
+        const body = contexts(node.body, s, encoders);
+        const elseBody = contexts(node.elseBody, s, encoders);
+        if (stateKey(body) !== stateKey(elseBody)) {
+          const tag = node.negate ? 'unless' : 'if';
+          throw new Error(
+            `Cannot escape template: the branches of {#${tag} ${node.condition.name}} ` +
+              'end in different HTML contexts'
+          );
+        }
+        s = body;
+        break;
+      }
+      case 'each': {
+        const key = stateKey(s);
+        const body = contexts(node.body, s, encoders);
+        const elseBody = contexts(node.elseBody, s, encoders);
+        if (stateKey(body) !== key || stateKey(elseBody) !== key) {
+          throw new Error(
+            `Cannot escape template: {#each ${node.collection.name}} ` +
+              'does not end in the HTML context it starts in'
+          );
+        }
+        break;
+      }
+    }
+  }
+  return s;
+}
+
+/** Slot encoders by node tree; the tree of a template never changes */
+const encoderCache = new WeakMap<readonly TemplateNode[], ReadonlyMap<SlotDescriptor, Encoder>>();
+
+/** The encoders of a template's slots, worked out on first use */
+function encodersFor(nodes: readonly TemplateNode[]): ReadonlyMap<SlotDescriptor, Encoder> {
+  let encoders = encoderCache.get(nodes);
+  if (!encoders) {
+    const found = new Map<SlotDescriptor, Encoder>();
+    contexts(nodes, INITIAL, found);
+    encoders = found;
+    encoderCache.set(nodes, encoders);
+  }
+  return encoders;
+}
+
+/**
+ * Get the function converting slot values of a template to output text under a policy:
+ * asString, or with `escape: 'html'` asString plus the encoding for each slot's context
+ * (SafeString values are output as they are). asString errors of secret slots are withheld.
+ *
+ * @param nodes - The template's node tree
+ * @param rp - Resolved policy
+ * @returns Conversion for the template's output slots
+ * @throws Error when escaping and a section ends in a different context than it starts in
+ * @internal
+ */
+export function stringifier(nodes: readonly TemplateNode[], rp: ResolvedPolicy): Stringify {
+  if (rp.escape !== 'html') return (slot, value) => slotString(slot, value, rp);
+  const encoders = encodersFor(nodes);
+  return (slot, value) =>
+    value instanceof SafeString
+      ? value.value
+      : encoders.get(slot)!(value, v => slotString(slot, v, rp));
+}
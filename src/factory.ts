@@ -0,0 +1,163 @@
+/**
+ * Configured loomstr instances.
+ * createLoom() binds custom filters, a transform and string conversion to the loom API once,
+ * instead of passing a policy to every render.
+ */
+
+import type {
+  CheckTemplate,
+  CompileOptions,
+  CustomFilterFn,
+  DefaultDelimiters,
+  Delimiters,
+  FilterFn,
+  FilterTypes,
+  Loom,
+  LoomOptions,
+  Template,
+  TemplatePolicy,
+} from './types';
+import { mergePolicy } from './filters';
+import { DEFAULT_DELIMITERS, parseTemplate } from './parser';
+import { renderRedacted, toPartsRedacted } from './redact';
+import { sql } from './sql';
+import { pipeTo, renderStream } from './stream';
+import { CompiledTemplate, concatOptions, renderFunction } from './template';
+import {
+  bind,
+  extraKeys,
+  formatTo,
+  hasSlot,
+  missingKeys,
+  renderer,
+  slotNames,
+  tryRender,
+  validate,
+} from './utils';
+
+/**
+ * Create a loomstr instance with a configured policy.
+ * Templates compiled by the instance render with its filters, transform and string conversion
+ * unless a call passes its own policy, which is layered over them (filters are merged).
+ * The custom filter names are known to the compile-time checks, and a filter's value
+ * parameter types the slots it is the first filter of.
+ *
+ * @param options - Custom filters, transform, string conversion, escaping, secret slots,
+ * locale, time zone and default delimiters
+ * @returns Instance with compile, parse, bind, tryRender and the other loom helpers
+ *
+ * @example
+ * ```typescript
+ * const app = createLoom({
+ *   filters: { percent: (v: number, digits = '0') => `${(v * 100).toFixed(Number(digits))}%` },
+ *   asString: v => (v == null ? '' : String(v)),
+ * });
+ * const t = app.compile("Done: {ratio|percent#1}");
+ * t.render({ ratio: 0.256 }); // "Done: 25.6%"
+ * t.render({ ratio: "x" }); // type error: percent takes a number
+ * ```
+ */
+export function createLoom<
+  const F extends Record<string, CustomFilterFn> = Record<never, CustomFilterFn>,
+  const D extends Delimiters = DefaultDelimiters,
+>(options: LoomOptions<F, D> = {}): Loom<FilterTypes<F>, D> {
+  type FT = FilterTypes<F>;
+  type Instance = Loom<FT, D>;
+  const delimiters = (options.delimiters ?? DEFAULT_DELIMITERS) as D;
+  const filters = Object.freeze({ ...options.filters }) as unknown as Record<string, FilterFn>;
+  const policy: TemplatePolicy = Object.freeze({
+    filters,
+    transform: options.transform,
+    asString: options.asString,
+    escape: options.escape,
+    secrets: options.secrets,
+    locale: options.locale,
+    timeZone: options.timeZone,
+  });
+
+  const build = <S extends string, TD extends Delimiters>(
+    source: S,
+    compileOptions?: CompileOptions<TD>,
+    basePolicy = policy
+  ): CompiledTemplate<S, TD, FT> => {
+    const d = (compileOptions?.delimiters ?? delimiters) as TD;
+    const { chunks, slots, nodes } = parseTemplate(source, {
+      delimiters: d,
+      filters: basePolicy.filters,
+    });
+    const secrets = compileOptions?.secrets;
+    const templatePolicy = secrets ? mergePolicy(basePolicy, { secrets }) : basePolicy;
+    const codegen = compileOptions?.codegen;
+    return new CompiledTemplate(source, chunks, slots, nodes, d, templatePolicy, codegen);
+  };
+
+  const instance: Instance = {
+    policy,
+    delimiters,
+
+    compile: <S extends string, const TD extends Delimiters = D>(
+      source: S & CheckTemplate<S, keyof FT & string, TD>,
+      compileOptions?: CompileOptions<TD>
+    ) => build<S, TD>(source, compileOptions),
+
+    compileFn: <S extends string, const TD extends Delimiters = D>(
+      source: S & CheckTemplate<S, keyof FT & string, TD>,
+      compileOptions?: CompileOptions<TD>,
+      callPolicy?: TemplatePolicy
+    ) => {
+      const codegen = compileOptions?.codegen === 'closures' ? 'closures' : true;
+      return renderFunction(build<S, TD>(source, { ...compileOptions, codegen }), callPolicy);
+    },
+
+    parse: (source, parseOptions) =>
+      parseTemplate(source, {
+        delimiters,
+        ...parseOptions,
+        filters: { ...filters, ...parseOptions?.filters },
+      }),
+
+    concat<A extends string, B extends string, TD extends Delimiters = D>(
+      a: Template<A, TD, FT>,
+      b: Template<B, TD, FT>
+    ) {
+      const [open, close] = a.delimiters;
+      if (b.delimiters[0] !== open || b.delimiters[1] !== close) {
+        throw new Error('concat: templates use different delimiters');
+      }
+      const { policy: concatPolicy, codegen } = concatOptions(a, b);
+      const source = `${a.source}${b.source}` as const;
+      return build(source, { delimiters: a.delimiters, codegen }, concatPolicy ?? policy);
+    },
+
+    tryRender: (t, params, callPolicy) => tryRender(t, params, mergePolicy(policy, callPolicy)),
+
+    formatTo: (t, params, callPolicy, sink) =>
+      formatTo(t, params, mergePolicy(policy, callPolicy), sink),
+
+    renderer: (t, callPolicy) => renderer(t, mergePolicy(policy, callPolicy)),
+
+    renderStream: (t, params, callPolicy, streamOptions) =>
+      renderStream(t, params, mergePolicy(policy, callPolicy), streamOptions),
+
+    pipeTo: (t, params, destination, callPolicy, streamOptions) =>
+      pipeTo(t, params, destination, mergePolicy(policy, callPolicy), streamOptions),
+
+    sql: (t, params, callPolicy, sqlOptions) =>
+      sql(t, params, mergePolicy(policy, callPolicy), sqlOptions),
+
+    renderRedacted: (t, params, callPolicy, redactOptions) =>
+      renderRedacted(t, params, mergePolicy(policy, callPolicy), redactOptions),
+
+    toPartsRedacted: (t, params, callPolicy, redactOptions) =>
+      toPartsRedacted(t, params, mergePolicy(policy, callPolicy), redactOptions),
+
+    bind: (t, bound, defaultPolicy) => bind(t, bound, mergePolicy(policy, defaultPolicy)),
+
+    slotNames,
+    hasSlot,
+    missingKeys,
+    extraKeys,
+    validate,
+  };
+  return Object.freeze(instance);
+}
@@ -3,11 +3,345 @@
  * This module provides default filters and utilities for resolving template policies.
  */
 
-import type { FilterFn, TemplatePolicy, ResolvedPolicy } from './types';
+import type {
+  FilterArg,
+  FilterArgType,
+  FilterArgValues,
+  FilterDescriptor,
+  FilterFn,
+  ResolvedPolicy,
+  TemplatePolicy,
+  TypedFilterFn,
+} from './types';
+import {
+  LruCache,
+  formatDate,
+  formatList,
+  formatNumber,
+  formatPlural,
+  formatRelative,
+  formatSelect,
+  readCases,
+} from './intl';
+import { SafeString } from './escape';
+import { SqlIdentifier } from './sql';
+
+const NUMBER_LITERAL = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+/**
+ * Interpret unquoted argument text as a literal: numbers, `true`, `false` and `null`
+ * become typed values, anything else stays a string.
+ *
+ * @param text - Argument text with quotes removed
+ * @returns The literal value
+ */
+export function literalArg(text: string): FilterArg {
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null') return null;
+  return NUMBER_LITERAL.test(text) ? Number(text) : text;
+}
+
+/**
+ * Declare a filter that receives typed arguments.
+ * Template arguments are checked against `argTypes` when a template is compiled (for the
+ * built-ins and CompileOptions.filters) and again before each call, so the filter gets
+ * numbers, booleans and lists instead of re-parsing strings.
+ * A `string` argument accepts any scalar literal as written (`#007` stays "007").
+ * An empty argument counts as omitted unless a string is declared for it.
+ *
+ * @param argTypes - Argument types in order; a trailing `?` marks an optional argument
+ * @param fn - Filter implementation
+ * @returns The filter, tagged with its argument types
+ *
+ * @example
+ * ```typescript
+ * const repeat = typedFilter(['integer'], (v, times) => String(v).repeat(times));
+ * loom.compile('{sep|repeat#3}').render({ sep: '-' }, { filters: { repeat } }); // "---"
+ * loom.compile('{sep|repeat#x}', { filters: { repeat } }); // throws LoomParseError
+ * ```
+ */
+export function typedFilter<const T extends readonly FilterArgType[]>(
+  argTypes: T,
+  fn: (value: unknown, ...args: FilterArgValues<T>) => unknown
+): TypedFilterFn {
+  return Object.assign(fn as unknown as FilterFn, { argTypes: Object.freeze(argTypes.slice()) });
+}
+
+/** True when a filter declares typed arguments */
+export const isTypedFilter = (fn: FilterFn): fn is TypedFilterFn =>
+  Array.isArray((fn as Partial<TypedFilterFn>).argTypes);
+
+const KIND_NAMES: Record<string, string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  boolean: 'a boolean',
+  list: 'a list',
+};
+
+/**
+ * Check a filter's arguments against its declared types and convert them.
+ * Arguments without `rawArgs` (hand-built descriptors) are read as unquoted text.
+ *
+ * @param filter - The filter invocation
+ * @param argTypes - Declared argument types
+ * @returns The values to call the filter with, or the index of the bad argument and a reason
+ */
+export function checkFilterArgs(
+  filter: FilterDescriptor,
+  argTypes: readonly FilterArgType[]
+): { ok: true; values: unknown[] } | { ok: false; index: number; reason: string } {
+  const { name, args, rawArgs } = filter;
+  let given = args.length;
+  // trailing empty arguments past the declared ones (`join#, `) are ignored
+  while (given > argTypes.length && args[given - 1] === '') given--;
+  if (given > argTypes.length) {
+    const reason = `${name}: expected at most ${argTypes.length} argument(s), got ${given}`;
+    return { ok: false, index: argTypes.length, reason };
+  }
+
+  const values: unknown[] = [];
+  for (let i = 0; i < argTypes.length; i++) {
+    const type = argTypes[i]!;
+    const optional = type.endsWith('?');
+    const kind = optional ? type.slice(0, -1) : type;
+    const written = args[i];
+    const raw = rawArgs?.[i] ?? (typeof written === 'string' ? written : undefined);
+    const arg =
+      rawArgs === undefined && typeof written === 'string' ? literalArg(written) : written;
+
+    if (i >= given || (arg === '' && kind !== 'string' && kind !== 'any')) {
+      if (!optional) {
+        return { ok: false, index: i, reason: `${name}: missing argument ${i + 1} (${kind})` };
+      }
+      values.push(undefined);
+      continue;
+    }
+
+    let value: unknown = arg;
+    let ok: boolean;
+    switch (kind) {
+      case 'string':
+        ok = !Array.isArray(arg);
+        if (ok && typeof arg !== 'string') value = raw ?? String(arg);
+        break;
+      case 'number':
+        ok = typeof arg === 'number';
+        break;
+      case 'integer':
+        ok = Number.isInteger(arg);
+        break;
+      case 'boolean':
+        ok = typeof arg === 'boolean';
+        break;
+      case 'list':
+        ok = Array.isArray(arg);
+        break;
+      default:
+        ok = true;
+    }
+    if (!ok) {
+      const got = raw ?? JSON.stringify(arg);
+      const reason = `${name}: argument ${i + 1} must be ${KIND_NAMES[kind]}, got "${got}"`;
+      return { ok: false, index: i, reason };
+    }
+    values.push(value);
+  }
+  return { ok: true, values };
+}
+
+/** Filters taking `key:text` cases (plural, ordinal, select), with the name they check by */
+const caseFilters = new WeakMap<FilterFn, string>();
+
+/** Record that a filter takes the cases of the named filter */
+function casesFilter(name: string, fn: FilterFn): FilterFn {
+  caseFilters.set(fn, name);
+  return fn;
+}
+
+/**
+ * Check one invocation of a filter as a template is compiled: a typed filter's arguments
+ * against its declared types, and the cases of plural, ordinal and select.
+ *
+ * @param fn - The filter function
+ * @param filter - The invocation with its arguments
+ * @returns Whether the arguments are accepted, or the index of the bad argument and a reason
+ * @internal
+ */
+export function checkFilter(
+  fn: FilterFn,
+  filter: FilterDescriptor
+): { ok: true } | { ok: false; index: number; reason: string } {
+  if (isTypedFilter(fn)) return checkFilterArgs(filter, fn.argTypes);
+  const cases = caseFilters.get(fn);
+  if (cases === undefined) return { ok: true };
+  const read = readCases(cases, filter.rawArgs ?? (filter.args as readonly string[]));
+  return 'reason' in read ? { ok: false, index: read.index, reason: read.reason } : { ok: true };
+}
+
+/**
+ * Call a filter for one invocation of a slot's filter chain.
+ * Untyped filters get the argument text; typed filters get checked, converted values.
+ *
+ * @param fn - The filter function
+ * @param filter - The invocation with its arguments
+ * @param value - The value to filter
+ * @returns The filtered value
+ * @throws Error if a typed filter's arguments don't match its declaration
+ */
+export function applyFilter(fn: FilterFn, filter: FilterDescriptor, value: unknown): unknown {
+  if (!isTypedFilter(fn)) {
+    return fn(value, ...(filter.rawArgs ?? (filter.args as readonly string[])));
+  }
+  const checked = checkFilterArgs(filter, fn.argTypes);
+  if (!checked.ok) throw new Error(checked.reason);
+  return (fn as (value: unknown, ...args: unknown[]) => unknown)(value, ...checked.values);
+}
+
+/**
+ * Bind a filter to one invocation's arguments, converting typed arguments once.
+ * The bound filter behaves like applyFilter; bad typed arguments throw when it is called.
+ *
+ * @param fn - The filter function
+ * @param filter - The invocation with its arguments
+ * @returns A function filtering a single value
+ */
+export function bindFilter(fn: FilterFn, filter: FilterDescriptor): (value: unknown) => unknown {
+  if (!isTypedFilter(fn)) {
+    const args = filter.rawArgs ?? (filter.args as readonly string[]);
+    return args.length === 0 ? value => fn(value) : value => fn(value, ...args);
+  }
+  const checked = checkFilterArgs(filter, fn.argTypes);
+  if (!checked.ok) {
+    const reason = checked.reason;
+    return () => {
+      throw new Error(reason);
+    };
+  }
+  const values = checked.values;
+  return value => (fn as (value: unknown, ...args: unknown[]) => unknown)(value, ...values);
+}
+
+/** Intl filters by locale and time zone, for the most recently used pairs */
+const localeFilterCache = new LruCache<Record<string, FilterFn>>(64);
+
+/**
+ * The Intl filters (number, currency, percent, date, time, datetime, relative, list, plural
+ * and ordinal) for a locale and time zone, built once per pair (while it is among the recently
+ * used ones). Without either they use the runtime's.
+ *
+ * @param locale - Locale tag or list of tags
+ * @param timeZone - Time zone of the date filters
+ * @returns The filters, by name
+ * @internal
+ */
+export function localeFilters(
+  locale?: TemplatePolicy['locale'],
+  timeZone?: string
+): Record<string, FilterFn> {
+  const key = JSON.stringify([locale, timeZone]);
+  const cached = localeFilterCache.get(key);
+  if (cached) return cached;
+  const digits = (name: string, d: number | undefined) => {
+    if (d !== undefined && d < 0) throw new Error(`${name}: invalid digits "${d}"`);
+    return d === undefined ? {} : { minimumFractionDigits: d, maximumFractionDigits: d };
+  };
+  const filters: Record<string, FilterFn> = Object.freeze({
+    /**
+     * Format a number for the locale, with optional fixed decimal places.
+     * Usage: {count|number} gives "1,234.5" in en-US, {count|number#2} "1.234,50" in de-DE
+     */
+    number: typedFilter(['integer?'], (v, d) => {
+      return formatNumber(v, locale, digits('number', d), 'number');
+    }),
+
+    /**
+     * Format an amount of a currency (ISO 4217 code) for the locale.
+     * Usage: {amount|currency#EUR}, or {amount|currency#USD,code} to show the code;
+     * the display is symbol (default), narrowSymbol, code or name
+     */
+    currency: typedFilter(['string', 'string?'], (v, code, display) => {
+      const options = { style: 'currency', currency: code, currencyDisplay: display };
+      return formatNumber(v, locale, options as Intl.NumberFormatOptions, 'currency');
+    }),
+
+    /**
+     * Format a ratio as a percentage for the locale (0.25 is 25%).
+     * Usage: {ratio|percent}, or {ratio|percent#1} for one decimal place
+     */
+    percent: typedFilter(['integer?'], (v, d) => {
+      return formatNumber(v, locale, { style: 'percent', ...digits('percent', d) }, 'percent');
+    }),
+
+    /**
+     * Format a date (Date, timestamp or date string) in the time zone.
+     * Usage: {when|date} or {when|date#short}; the style is short, medium (default), long or full
+     */
+    date: typedFilter(['string?'], (v, style = 'medium') => {
+      return formatDate(v, locale, timeZone, { dateStyle: style }, 'date');
+    }),
+
+    /**
+     * Format the time of day of a date in the time zone.
+     * Usage: {when|time} or {when|time#medium}; the style defaults to short
+     */
+    time: typedFilter(['string?'], (v, style = 'short') => {
+      return formatDate(v, locale, timeZone, { timeStyle: style }, 'time');
+    }),
+
+    /**
+     * Format a date and its time of day in the time zone.
+     * Usage: {when|datetime} or {when|datetime#long,short}; styles default to medium, short
+     */
+    datetime: typedFilter(['string?', 'string?'], (v, dateStyle = 'medium', time = 'short') => {
+      return formatDate(v, locale, timeZone, { dateStyle, timeStyle: time }, 'datetime');
+    }),
+
+    /**
+     * Format a relative time: a number of units, or a date measured from now.
+     * Usage: {days|relative#day} gives "in 3 days", {when|relative} picks the unit for a date;
+     * {days|relative#day,auto} writes "tomorrow" where the locale has a word for it
+     */
+    relative: typedFilter(['string?', 'string?'], (v, unit, numeric) => {
+      return formatRelative(v, locale, unit, numeric);
+    }),
+
+    /**
+     * Join a list for the locale: "a, b, and c".
+     * Usage: {tags|list}, {tags|list#disjunction} for "a, b, or c", {tags|list#unit,narrow};
+     * the type is conjunction (default), disjunction or unit, the style long, short or narrow
+     */
+    list: typedFilter(['string?', 'string?'], (v, type, style) => {
+      return formatList(v, locale, type, style);
+    }),
+
+    /**
+     * Pick the text for a count by the locale's plural rules; `#` is the formatted count and
+     * `##` a literal `#`.
+     * Usage: {count|plural#one:"# file",other:"# files"}; exact matches like =0:"no files"
+     * come first, and an other case is required (cases are checked when compiling)
+     */
+    plural: casesFilter('plural', (v, ...cases) => {
+      return formatPlural(v, locale, 'cardinal', cases, 'plural');
+    }),
+
+    /**
+     * Pick the text for a position by the locale's ordinal rules; `#` is the formatted number.
+     * Usage: {place|ordinal#one:#st,two:#nd,few:#rd,other:#th}
+     */
+    ordinal: casesFilter('ordinal', (v, ...cases) => {
+      return formatPlural(v, locale, 'ordinal', cases, 'ordinal');
+    }),
+  });
+  localeFilterCache.set(key, filters);
+  return filters;
+}
 
 /**
  * Built-in filter functions available in all templates.
  * These filters can be used with the {slot|filter} syntax and can be chained.
+ * Filters taking arguments are typed (see typedFilter), so bad arguments fail at compile time.
  *
  * Available filters:
  * - `upper`: Convert to uppercase
@@ -21,6 +355,14 @@ import type { FilterFn, TemplatePolicy, ResolvedPolicy } from './types';
  * - `fixed`: Format number to fixed decimal places
  * - `map`: Transform array elements using a template expression
  * - `join`: Join array elements into a string with optional separator
+ * - `raw`: Mark the value as safe, so `escape: 'html'` outputs it unescaped
+ * - `ident`: Mark the value as SQL identifiers, quoted instead of bound by loom.sql
+ * - `secret`: Mark the slot as secret, masked by redacted renders (the value is unchanged)
+ * - `number`, `currency`, `percent`: Format numbers for the policy's locale
+ * - `date`, `time`, `datetime`: Format dates for the policy's locale and time zone
+ * - `relative`: Format a relative time ("in 3 days"); `list`: Join a list ("a, b, and c")
+ * - `plural`, `ordinal`: Pick a case by the locale's plural rules ("1 file", "3 files")
+ * - `select`: Pick the case matching the value ("she", "he", "they")
  */
 export const builtinFilters: Record<string, FilterFn> = Object.freeze({
   /** Convert value to uppercase string */
@@ -36,56 +378,32 @@ export const builtinFilters: Record<string, FilterFn> = Object.freeze({
    * Extract substring with start position and optional end position.
    * Usage: {text|slice#5} starts at index 5, {text|slice#2,8} from index 2 to 8
    * @param v - Value to slice
-   * @param startArg - Start index (as string)
-   * @param endArg - Optional end index (as string)
+   * @param start - Start index
+   * @param end - Optional end index
    */
-  slice: (v, startArg, endArg) => {
-    if (startArg === undefined) {
-      throw new Error('slice: missing start index argument');
-    }
-    const start = Number(startArg);
-    if (!Number.isInteger(start)) {
-      throw new Error(`slice: invalid start index "${startArg}"`);
-    }
-    const s = String(v);
-    if (endArg === undefined) {
-      return s.slice(start);
-    }
-    const end = Number(endArg);
-    if (!Number.isInteger(end)) {
-      throw new Error(`slice: invalid end index "${endArg}"`);
-    }
-    return s.slice(start, end);
-  },
+  slice: typedFilter(['integer', 'integer?'], (v, start, end) => String(v).slice(start, end)),
 
   /**
    * Wrap string with prefix and optional suffix.
    * Usage: {text|wrap#"[","]"} wraps with brackets, {text|wrap#"*"} wraps with asterisks
    * @param v - Value to wrap
-   * @param prefixArg - Prefix string
-   * @param suffixArg - Optional suffix string (defaults to prefix)
+   * @param prefix - Prefix string
+   * @param suffix - Optional suffix string (defaults to prefix)
    */
-  wrap: (v, prefixArg = '', suffixArg) => {
-    const s = String(v);
-    const prefix = prefixArg || '';
-    const suffix = suffixArg !== undefined ? suffixArg : prefix;
-    return prefix + s + suffix;
-  },
+  wrap: typedFilter(['string?', 'string?'], (v, prefix = '', suffix = prefix) => {
+    return prefix + String(v) + suffix;
+  }),
 
   /** JSON stringify the value with optional indentation */
-  json: (v, indentArg) => {
-    if (indentArg === undefined || indentArg === '') {
+  json: typedFilter(['integer?'], (v, indent) => {
+    if (indent === undefined) {
       return JSON.stringify(v);
     }
-    const indent = Number(indentArg);
-    if (!Number.isFinite(indent)) {
-      throw new Error(`json: invalid indent \"${indentArg}\"`);
-    }
-    if (!Number.isInteger(indent) || indent < 0) {
+    if (indent < 0) {
       throw new Error('json: indent must be a non-negative integer');
     }
     return JSON.stringify(v, null, indent);
-  },
+  }),
 
   /**
    * Access nested properties using dot notation path.
@@ -94,7 +412,7 @@ export const builtinFilters: Record<string, FilterFn> = Object.freeze({
    * @param pathArg - Dot-separated path string
    * @param fallback - Optional fallback value when path is missing
    */
-  path: (value, pathArg, fallback) => {
+  path: typedFilter(['string', 'any?'], (value, pathArg, fallback) => {
     if (!pathArg) {
       throw new Error('path: missing property path argument');
     }
@@ -139,41 +457,39 @@ export const builtinFilters: Record<string, FilterFn> = Object.freeze({
       return fallback ?? '';
     }
     return current;
-  },
+  }),
 
   /**
    * Right-pad string to specified length with fill character.
    * Usage: {value|pad#10,' '} pads to 10 characters with spaces
    * @param v - Value to pad
-   * @param lenArg - Target length (as string)
-   * @param fillArg - Fill character (defaults to space)
+   * @param len - Target length
+   * @param fill - Fill character (defaults to space)
    */
-  pad: (v, lenArg = '0', fillArg = ' ') => {
-    const len = Number(lenArg);
-    if (!Number.isFinite(len)) throw new Error(`pad: invalid length "${lenArg}"`);
+  pad: typedFilter(['number?', 'string?'], (v, len = 0, fill) => {
     const s = String(v);
-    const fill = (fillArg || ' ').slice(0, 1);
-    return s.length >= len ? s : s + fill.repeat(len - s.length);
-  },
+    const ch = (fill || ' ').slice(0, 1);
+    return s.length >= len ? s : s + ch.repeat(len - s.length);
+  }),
 
   /**
    * Format number to fixed decimal places.
    * Usage: {value|fixed#2} formats to 2 decimal places
    * @param v - Numeric value to format
-   * @param d - Number of decimal places (as string)
+   * @param d - Number of decimal places
    */
-  fixed: (v, d = '0') => {
+  fixed: typedFilter(['integer?'], (v, d = 0) => {
     const n = typeof v === 'number' ? v : Number(v);
-    const k = Number(d);
     if (!Number.isFinite(n)) throw new Error(`fixed: non-numeric value ${String(v)}`);
-    if (!Number.isInteger(k) || k < 0) throw new Error(`fixed: invalid digits "${d}"`);
-    return n.toFixed(k);
-  },
+    if (d < 0) throw new Error(`fixed: invalid digits "${d}"`);
+    return n.toFixed(d);
+  }),
 
   /**
    * Map over array elements using a template expression.
    * Usage: {items|map#item => - $item.title$ x$item.qty$\n} returns array of strings
    * Can be chained with join: {items|map#item => $item.name$|join#, }
+   * For bodies that need filters, escapes or nested arrays use {#each items as item} sections.
    * @param value - Array to map over
    * @param templateArg - Template expression with variable binding using $ syntax
    */
@@ -256,29 +572,101 @@ export const builtinFilters: Record<string, FilterFn> = Object.freeze({
    * @param value - Array to join
    * @param separator - Join separator (defaults to empty string)
    */
-  join: (value, separator = '') => {
+  join: typedFilter(['string?'], (value, separator = '') => {
     if (!Array.isArray(value)) {
       throw new Error('join: value must be an array');
     }
     return value.map(v => String(v)).join(separator);
-  },
+  }),
+
+  /**
+   * Mark the value as safe markup, output without escaping when the policy escapes.
+   * Usage: {intro|raw}; only for values that are trusted or already encoded for their context
+   * @param v - Value to output as it is (a SafeString is kept)
+   */
+  raw: v => (v instanceof SafeString ? v : new SafeString(String(v))),
+
+  /**
+   * Mark the value (a name or a list of names) as SQL identifiers.
+   * Usage: SELECT {cols|ident} FROM {table|ident}; loom.sql quotes them for its dialect
+   * @param v - Identifier name or list of names
+   */
+  ident: v => (v instanceof SqlIdentifier ? v : new SqlIdentifier(v)),
+
+  /**
+   * Mark the slot as secret; the value passes through unchanged.
+   * Usage: {card|secret}; renderRedacted masks it and its errors never carry the value
+   * @param v - The secret value
+   */
+  secret: v => v,
+
+  /**
+   * Pick the text of the case matching the value, or the other case.
+   * Usage: {gender|select#female:"She",male:"He",other:"They"} replied
+   * @param v - Value to match against the case keys
+   * @param cases - `key:text` cases, including other
+   */
+  select: casesFilter('select', (v, ...cases) => formatSelect(v, cases)),
+
+  ...localeFilters(),
 });
 
 /** Default string conversion function */
-const defaultAsString = (v: unknown) => String(v);
+export const defaultAsString = (v: unknown) => String(v);
 
 /**
  * Resolve a template policy by merging with defaults.
  * Combines built-in filters with custom filters and applies default string conversion.
+ * With a locale or time zone, the built-in Intl filters are swapped for ones using them.
  *
  * @param policy - Optional custom policy to merge with defaults
  * @returns Resolved policy with all defaults applied
  */
-export const resolvePolicy = (policy?: TemplatePolicy): ResolvedPolicy => ({
-  filters: { ...builtinFilters, ...(policy?.filters ?? {}) },
-  transform: policy?.transform,
-  asString: policy?.asString ?? defaultAsString,
-});
+export const resolvePolicy = (policy?: TemplatePolicy): ResolvedPolicy => {
+  const filters = { ...builtinFilters, ...(policy?.filters ?? {}) };
+  if (policy?.locale !== undefined || policy?.timeZone !== undefined) {
+    // only built-ins are swapped (a policy may carry builtinFilters); custom filters win
+    for (const [name, fn] of Object.entries(localeFilters(policy.locale, policy.timeZone))) {
+      if (filters[name] === builtinFilters[name]) filters[name] = fn;
+    }
+  }
+  return {
+    filters,
+    transform: policy?.transform,
+    asString: policy?.asString ?? defaultAsString,
+    escape: policy?.escape,
+    secrets: policy?.secrets,
+    locale: policy?.locale,
+    timeZone: policy?.timeZone,
+  };
+};
+
+/**
+ * Layer a policy over a base policy: set fields of the override win, filters are merged and
+ * secret patterns combined.
+ *
+ * @param base - Default policy (e.g. the one a template was created with)
+ * @param override - Policy passed for a single call
+ * @returns The combined policy; base or override itself when the other is absent
+ */
+export const mergePolicy = (
+  base?: TemplatePolicy,
+  override?: TemplatePolicy
+): TemplatePolicy | undefined => {
+  if (!base || !override) return override ?? base;
+  return {
+    filters: { ...base.filters, ...override.filters },
+    transform: override.transform ?? base.transform,
+    asString: override.asString ?? base.asString,
+    escape: override.escape ?? base.escape,
+    secrets:
+      base.secrets && override.secrets
+        ? [...base.secrets, ...override.secrets]
+        : (override.secrets ?? base.secrets),
+    locale: override.locale ?? base.locale,
+    timeZone: override.timeZone ?? base.timeZone,
+  };
+};
 
 /**
  * Default template policy with built-in filters and string conversion.
@@ -0,0 +1,278 @@
+/**
+ * Locale-aware formatting for loomstr's Intl filters.
+ * Formats numbers, currencies, percentages, dates, relative times and lists with the Intl
+ * API, for the locale and time zone of a policy, and picks plural and select cases.
+ * Formatters are built once per locale and options and reused; the caches keep the most
+ * recently used ones, as locales may come from requests.
+ */
+
+/** Locale the Intl filters format for; undefined means the runtime's default */
+export type Locale = string | readonly string[] | undefined;
+
+/** Date and time styles the date, time and datetime filters take */
+const STYLES = new Set(['short', 'medium', 'long', 'full']);
+
+/** Relative time units from seconds to years, with their length in seconds */
+const UNITS: readonly [Intl.RelativeTimeFormatUnit, number][] = [
+  ['second', 1],
+  ['minute', 60],
+  ['hour', 3600],
+  ['day', 86400],
+  ['week', 604800],
+  ['month', 2629800],
+  ['year', 31557600],
+];
+
+/** Plural categories of Intl.PluralRules, the keys plural and ordinal cases may use */
+const CATEGORIES = new Set(['zero', 'one', 'two', 'few', 'many', 'other']);
+
+/**
+ * A cache keeping its most recently used entries: reading an entry marks it used, and adding
+ * one beyond the limit drops the entry used least recently.
+ * @internal
+ */
+export class LruCache<V> {
+  private readonly entries = new Map<string, V>();
+
+  /**
+   * @param limit - How many entries to keep
+   */
+  constructor(private readonly limit: number) {}
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.limit) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+}
+
+/** Formatters by kind, locale and options */
+const formatters = new LruCache<unknown>(256);
+
+/** Get the formatter for a kind, locale and options, building it on first use */
+function formatter<T>(kind: string, locale: Locale, options: object, make: () => T): T {
+  const key = JSON.stringify([kind, locale, options]);
+  let found = formatters.get(key) as T | undefined;
+  if (!found) {
+    found = make();
+    formatters.set(key, found);
+  }
+  return found;
+}
+
+/** Intl takes a mutable locale list */
+const locales = (locale: Locale) => locale as string | string[] | undefined;
+
+/** The number a value stands for: numbers and bigints as they are, numeric strings parsed */
+function toNumber(value: unknown, name: string): number | bigint {
+  if (typeof value === 'bigint') return value;
+  const n = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+  if (!Number.isFinite(n) || (typeof value === 'string' && !value.trim())) {
+    throw new Error(`${name}: non-numeric value ${String(value)}`);
+  }
+  return n;
+}
+
+/** The date a value stands for: a Date, a timestamp in milliseconds or a date string */
+function toDate(value: unknown, name: string): Date {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === 'number' || typeof value === 'string'
+        ? new Date(value)
+        : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new Error(`${name}: invalid date ${String(value)}`);
+  }
+  return date;
+}
+
+/** Check a date or time style argument */
+function checkStyle(style: string | undefined, name: string): void {
+  if (style !== undefined && !STYLES.has(style)) {
+    throw new Error(`${name}: unknown style "${style}" (use short, medium, long or full)`);
+  }
+}
+
+/**
+ * Format a number with Intl.NumberFormat.
+ * @internal
+ */
+export function formatNumber(
+  value: unknown,
+  locale: Locale,
+  options: Intl.NumberFormatOptions,
+  name: string
+): string {
+  const n = toNumber(value, name);
+  return formatter('number', locale, options, () => new Intl.NumberFormat(locales(locale), options))
+    .format(n);
+}
+
+/**
+ * Format a date, a time or both with Intl.DateTimeFormat.
+ * @internal
+ */
+export function formatDate(
+  value: unknown,
+  locale: Locale,
+  timeZone: string | undefined,
+  styles: { readonly dateStyle?: string; readonly timeStyle?: string },
+  name: string
+): string {
+  checkStyle(styles.dateStyle, name);
+  checkStyle(styles.timeStyle, name);
+  const date = toDate(value, name);
+  const options = { ...styles, timeZone } as Intl.DateTimeFormatOptions;
+  return formatter('date', locale, options, () => new Intl.DateTimeFormat(locales(locale), options))
+    .format(date);
+}
+
+/**
+ * Format a relative time with Intl.RelativeTimeFormat.
+ * A number is an amount of the given unit; a date is measured from now, in the given unit or
+ * the largest one it spans.
+ * @internal
+ */
+export function formatRelative(
+  value: unknown,
+  locale: Locale,
+  unit: string | undefined,
+  numeric: string | undefined
+): string {
+  if (unit !== undefined && !UNITS.some(([name]) => name === unit)) {
+    const names = UNITS.map(([name]) => name).join(', ');
+    throw new Error(`relative: unknown unit "${unit}" (use ${names})`);
+  }
+  let amount: number;
+  let chosen = unit as Intl.RelativeTimeFormatUnit | undefined;
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    if (!chosen) throw new Error('relative: a unit is needed for a number (e.g. relative#day)');
+    amount = Number(value);
+  } else {
+    const seconds = (toDate(value, 'relative').getTime() - Date.now()) / 1000;
+    const fits = UNITS.filter(([, size]) => Math.abs(seconds) >= size);
+    const [picked, size] = UNITS.find(([name]) => name === chosen) ?? fits.pop() ?? UNITS[0]!;
+    chosen = picked;
+    amount = Math.round(seconds / size);
+  }
+  const options = { numeric } as Intl.RelativeTimeFormatOptions;
+  const format = formatter('relative', locale, options, () => {
+    return new Intl.RelativeTimeFormat(locales(locale), options);
+  });
+  return format.format(amount, chosen);
+}
+
+/**
+ * Join a list with Intl.ListFormat.
+ * @internal
+ */
+export function formatList(value: unknown, locale: Locale, type?: string, style?: string): string {
+  if (!Array.isArray(value)) throw new Error('list: value must be an array');
+  const options = { type, style } as Intl.ListFormatOptions;
+  const format = formatter('list', locale, options, () => {
+    return new Intl.ListFormat(locales(locale), options);
+  });
+  return format.format(value.map(item => String(item)));
+}
+
+/** Cases of a plural, ordinal or select filter: text by key */
+export type Cases = ReadonlyMap<string, string>;
+
+/** Parsed cases by filter name and arguments */
+const parsedCases = new LruCache<Cases>(256);
+
+/** A case argument a filter cannot use: its index (the argument count if one is missing) */
+export interface CaseIssue {
+  readonly index: number;
+  readonly reason: string;
+}
+
+/**
+ * Read `key:text` case arguments, checking the keys: plural categories or exact matches
+ * (`=0`) for plural and ordinal, words for select. An `other` case is required.
+ * Templates check their cases with it when they are compiled (see checkFilter).
+ *
+ * @param name - The filter the cases are for
+ * @param args - Its arguments
+ * @returns The cases, or the first bad argument
+ * @internal
+ */
+export function readCases(name: string, args: readonly string[]): Cases | CaseIssue {
+  const key = JSON.stringify([name, args]);
+  const found = parsedCases.get(key);
+  if (found) return found;
+  const cases = new Map<string, string>();
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]!;
+    const colon = arg.indexOf(':');
+    const caseKey = arg.slice(0, colon).trim();
+    if (colon < 0 || !caseKey) {
+      return { index, reason: `${name}: case "${arg}" needs a key (e.g. other:"# files")` };
+    }
+    const valid =
+      name === 'select'
+        ? /^[\w-]+$/.test(caseKey)
+        : CATEGORIES.has(caseKey) ||
+          (caseKey.startsWith('=') && caseKey.length > 1 && Number.isFinite(+caseKey.slice(1)));
+    if (!valid) return { index, reason: `${name}: invalid case key "${caseKey}"` };
+    if (cases.has(caseKey)) return { index, reason: `${name}: duplicate case "${caseKey}"` };
+    cases.set(caseKey, arg.slice(colon + 1));
+  }
+  if (!cases.has('other')) return { index: args.length, reason: `${name}: missing "other" case` };
+  parsedCases.set(key, cases);
+  return cases;
+}
+
+/** The cases of a filter's arguments; bad ones throw */
+function parseCases(name: string, args: readonly string[]): Cases {
+  const cases = readCases(name, args);
+  if ('reason' in cases) throw new Error(cases.reason);
+  return cases;
+}
+
+/**
+ * Pick the plural (or ordinal) case for a number with Intl.PluralRules: an exact match
+ * (`=0`) first, then the locale's category, then `other`. `#` in the case text is replaced
+ * by the number, formatted for the locale; `##` is a literal `#`.
+ * @internal
+ */
+export function formatPlural(
+  value: unknown,
+  locale: Locale,
+  type: Intl.PluralRulesOptions['type'],
+  args: readonly string[],
+  name: string
+): string {
+  const cases = parseCases(name, args);
+  const n = toNumber(value, name);
+  const options = { type };
+  const rules = formatter('plural', locale, options, () => {
+    return new Intl.PluralRules(locales(locale), options);
+  });
+  const exact = [...cases].find(([key]) => key[0] === '=' && Number(key.slice(1)) === Number(n));
+  const text = exact?.[1] ?? cases.get(rules.select(Number(n))) ?? cases.get('other')!;
+  if (!text.includes('#')) return text;
+  const formatted = formatNumber(n, locale, {}, name);
+  return text.replace(/##?/g, mark => (mark === '#' ? formatted : '#'));
+}
+
+/**
+ * Pick the select case matching a value (as a string), or `other`.
+ * @internal
+ */
+export function formatSelect(value: unknown, args: readonly string[]): string {
+  const cases = parseCases('select', args);
+  return cases.get(String(value)) ?? cases.get('other')!;
+}
@@ -3,11 +3,18 @@
  *
  * loomstr provides type-safe, slot-based templating with:
  * - Compile-time type checking of template parameters
- * - Built-in filters (upper, lower, json, path, pad, fixed)
- * - Custom filter and transform support via policies
+ * - Built-in filters (upper, lower, json, path, pad, fixed, map, join, raw, ident, secret)
+ * - Custom filter and transform support via policies or createLoom() instances
  * - Partial application through binding
  * - Safe rendering with error handling
- * - Security features including redaction capabilities
+ * - Async rendering with promise params and async filters
+ * - Streaming output to async iterables, Node.js Writables and WHATWG WritableStreams
+ * - Contextual HTML auto-escaping for text, attributes, URLs and scripts
+ * - Parameterised SQL statements with dialect placeholders
+ * - Secret slots, masked by redacted renders and kept out of error messages
+ * - Locale-aware Intl filters (number, currency, percent, date, time, datetime, relative, list)
+ *   and plural, ordinal and select filters
+ * - Message catalogs with locale fallback and translation checks
  *
  * @example
  * ```typescript
@@ -23,24 +30,90 @@
 
 export type {
   SlotKeys,
+  OptionalSlotKeys,
+  SlotPaths,
+  ParamsShape,
   ExactParamsForKeys,
   ExactParamsFor,
+  AsyncParamsFor,
+  Delimiters,
+  DefaultDelimiters,
+  CompileOptions,
+  BuiltinFilterName,
+  BuiltinFilterTypes,
+  UnknownFilters,
+  CheckFilters,
+  CheckTemplate,
+  TemplateSyntaxError,
+  LoomError,
+  ExpandPartials,
+  PartialSources,
+  TemplateRegistry,
+  CatalogSources,
+  CatalogOptions,
+  CatalogIssue,
+  MessageCatalog,
   FilterFn,
+  FilterArg,
+  FilterArgKind,
+  FilterArgType,
+  FilterArgValues,
+  TypedFilterFn,
   FilterDescriptor,
+  SourcePosition,
+  SourceRange,
+  ParseErrorCode,
+  Diagnostic,
+  ParseOptions,
+  ParseResult,
   TemplatePolicy,
   ResolvedPolicy,
   SlotDescriptor,
+  TemplateNode,
+  TextNode,
+  SlotNode,
+  ConditionalNode,
+  EachNode,
   TemplateParts,
   TemplatePartsRaw,
   Template,
   BoundTemplate,
+  RenderFunction,
+  CustomFilterFn,
+  FilterTypeEntry,
+  FilterTypeMap,
+  FilterTypes,
+  NoFilterTypes,
+  StreamOptions,
+  SqlDialect,
+  SqlPlaceholder,
+  SqlOptions,
+  SqlQuery,
+  SecretPattern,
+  RedactStrategy,
+  RedactOptions,
+  NodeWritableLike,
+  WritableStreamLike,
+  LoomOptions,
+  Loom,
   TEMPLATE_BRAND_TYPE,
 } from './types.js';
 
 export { TEMPLATE_BRAND } from './types.js';
-
-import { compile, concat } from './template.js';
-import { defaultPolicy } from './filters.js';
+export { LoomParseError, codeFrame } from './errors.js';
+export { createLoom } from './factory.js';
+export { SafeString } from './escape.js';
+export { SqlIdentifier } from './sql.js';
+
+import { compile, compileFn, concat } from './template.js';
+import { parseTemplate } from './parser.js';
+import { registry } from './registry.js';
+import { catalog } from './catalog.js';
+import { createLoom } from './factory.js';
+import { pipeTo, renderStream } from './stream.js';
+import { sql } from './sql.js';
+import { renderRedacted, toPartsRedacted } from './redact.js';
+import { defaultPolicy, typedFilter } from './filters.js';
 import {
   slotNames,
   hasSlot,
@@ -51,6 +124,7 @@ import {
   formatTo,
   bind,
   withDefaultPolicy,
+  renderer,
 } from './utils.js';
 
 /**
@@ -81,12 +155,27 @@ const loom = {
   /** Compile a template string into a reusable template instance */
   compile,
 
+  /** Compile a template string into a render function with its filters pre-bound */
+  compileFn,
+
+  /** Parse a template source, optionally recovering from errors to report every diagnostic */
+  parse: parseTemplate,
+
   /** Concatenate two templates into a single template */
   concat,
 
+  /** Create a registry of named partials for {>name} includes */
+  registry,
+
+  /** Create a catalog of messages by id and locale, with locale fallback */
+  catalog,
+
   /** Default policy with built-in filters */
   builtinPolicy: defaultPolicy,
 
+  /** Declare a filter whose arguments are typed and checked at compile time */
+  typedFilter,
+
   /** Get all unique slot names from a template */
   slotNames,
 
@@ -108,11 +197,32 @@ const loom = {
   /** Format a template to a sink for custom output handling */
   formatTo,
 
+  /** Render a template as an async iterable of chunks, awaiting promise params */
+  renderStream,
+
+  /** Render a template into a Node.js Writable or WHATWG WritableStream with back-pressure */
+  pipeTo,
+
+  /** Render a template into SQL text with placeholders and the values to bind */
+  sql,
+
+  /** Render a template with its secret slots masked, for logs */
+  renderRedacted,
+
+  /** Convert a template to parts with its secret slots masked */
+  toPartsRedacted,
+
+  /** Create a reusable render function with a policy resolved once */
+  renderer,
+
   /** Bind partial data to a template */
   bind,
 
   /** Wrap a template with a default policy */
   withDefaultPolicy,
+
+  /** Create an instance with custom filters and a default policy */
+  createLoom,
 };
 
 export default loom;
@@ -1,15 +1,121 @@
-import type { SlotDescriptor } from './types';
+import type {
+  ConditionalNode,
+  DefaultDelimiters,
+  Delimiters,
+  Diagnostic,
+  EachNode,
+  FilterArg,
+  FilterFn,
+  ParseErrorCode,
+  ParseOptions,
+  ParseResult,
+  SlotDescriptor,
+  SourcePosition,
+  SourceRange,
+  TemplateNode,
+} from './types';
+import { LoomParseError } from './errors';
+import { builtinFilters, checkFilter, literalArg } from './filters';
 
 const freeze = <T extends object>(o: T): T => Object.freeze(o);
 const EMPTY_ARGS = freeze([] as string[]);
+const EMPTY_RANGES = freeze([] as SourceRange[]);
+
+/** The default `{` / `}` slot delimiters */
+export const DEFAULT_DELIMITERS: DefaultDelimiters = freeze(['{', '}'] as const);
 
 const isIdentStart = (c: number) =>
   (c >= 65 && c <= 90) || (c >= 97 && c <= 122) || c === 95; // A-Z a-z _
-const isIdent = (c: number) => isIdentStart(c) || (c >= 48 && c <= 57); // + 0-9
+const isDigit = (c: number) => c >= 48 && c <= 57; // 0-9
+const isIdent = (c: number) => isIdentStart(c) || isDigit(c); // + 0-9
 
 interface FilterSegment {
   name: string;
-  args: string[];
+  args: FilterArg[];
+  rawArgs: string[];
+  range: SourceRange;
+  argRanges: SourceRange[];
+}
+
+/** Source being parsed, its delimiters, known filters and an offset -> line/column lookup */
+interface ParseContext {
+  readonly source: string;
+  readonly open: string;
+  readonly close: string;
+  /** Filters whose typed arguments are checked */
+  readonly filters: Record<string, FilterFn>;
+  readonly locate: (offset: number) => SourcePosition;
+}
+
+/** Build a context whose locate() binary-searches a table of line start offsets. */
+function createContext(
+  source: string,
+  [open, close]: Delimiters,
+  filters: Record<string, FilterFn> = builtinFilters
+): ParseContext {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    const c = source.charCodeAt(i);
+    if (c === 13 /* '\r' */ && source.charCodeAt(i + 1) === 10) i++;
+    if (c === 10 /* '\n' */ || c === 13) lineStarts.push(i + 1);
+  }
+
+  const locate = (offset: number): SourcePosition => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid]! <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return freeze({ offset, line: lo + 1, column: offset - lineStarts[lo]! + 1 });
+  };
+
+  return { source, open, close, filters, locate };
+}
+
+/** Wrap a slot or tag body in the template's delimiters for messages */
+const enclose = (ctx: ParseContext, body: string) => ctx.open + body + ctx.close;
+
+/**
+ * Check custom delimiters: both non-empty, distinct, and free of backslashes
+ * (a backslash always escapes the next character).
+ */
+function checkDelimiters(delimiters: Delimiters): void {
+  const [open, close] = delimiters;
+  if (
+    typeof open !== 'string' ||
+    typeof close !== 'string' ||
+    !open ||
+    !close ||
+    open === close ||
+    open.includes('\\') ||
+    close.includes('\\')
+  ) {
+    const expected = 'expected two distinct, non-empty strings without backslashes';
+    throw new Error(`Invalid delimiters ${JSON.stringify(delimiters)}: ${expected}`);
+  }
+}
+
+const rangeOf = (ctx: ParseContext, start: number, end: number): SourceRange =>
+  freeze({ start: ctx.locate(start), end: ctx.locate(end) });
+
+const parseError = (
+  ctx: ParseContext,
+  code: ParseErrorCode,
+  reason: string,
+  start: number,
+  end: number
+) => new LoomParseError(code, reason, rangeOf(ctx, start, end), ctx.source);
+
+function fail(
+  ctx: ParseContext,
+  code: ParseErrorCode,
+  reason: string,
+  start: number,
+  end: number
+): never {
+  throw parseError(ctx, code, reason, start, end);
 }
 
 /** Decode standard escapes for TEXT (outside slots). */
@@ -40,10 +146,35 @@ function decodeArgEscape(next: string): string {
   }
 }
 
+/** Loop variables available inside {#each} sections */
+const LOOP_VARIABLES = new Set(['@index', '@first', '@last']);
+
+/** Names visible to a slot body */
+interface SlotScope {
+  /** {#each} aliases in scope, innermost last (hidden by an enclosing {#with}) */
+  readonly aliases: readonly string[];
+  /** True inside any {#each}, where loop variables are available */
+  readonly inLoop: boolean;
+  /** Subject of the innermost {#with}: other names are read below its path */
+  readonly base?: SlotDescriptor;
+}
+
 /** Parse a single slot body with possible chained filters:
- *   name ( '|' ident ( '#' args )? )*
+ *   ( name ( '.' ( ident | digits ) )* | '@' ident ) ( '?' | '??' default )?
+ *   ( '|' ident ( '#' args )? )*
+ * `start`/`end` delimit the body in the source; `open`/`close` include the braces.
+ * Slots reading an {#each} alias in `scope` (or a loop variable) are marked `local`;
+ * inside {#with base}, other names are prefixed with the base path.
  */
-function parseSlotBody(body: string): SlotDescriptor {
+function parseSlotBody(
+  ctx: ParseContext,
+  start: number,
+  end: number,
+  open: number,
+  close: number,
+  scope: SlotScope
+): SlotDescriptor {
+  const body = ctx.source.slice(start, end);
   let i = 0;
   const n = body.length;
 
@@ -52,16 +183,116 @@ function parseSlotBody(body: string): SlotDescriptor {
 
   // name
   const ns = i;
+  const loopVar = i < n && body.charCodeAt(i) === 64; /* '@' */
+  if (loopVar) i++;
   if (i >= n || !isIdentStart(body.charCodeAt(i))) {
-    throw new Error(`Invalid slot: missing/invalid name in {${body}}`);
+    fail(
+      ctx,
+      'INVALID_SLOT_NAME',
+      `Invalid slot: missing/invalid name in ${enclose(ctx, body)}`,
+      start + i,
+      start + i + 1
+    );
   }
   i++;
   while (i < n && isIdent(body.charCodeAt(i))) i++;
-  const name = body.slice(ns, i);
+  const path = [body.slice(ns, i)];
+
+  if (loopVar && !LOOP_VARIABLES.has(path[0]!)) {
+    fail(
+      ctx,
+      'INVALID_SLOT_NAME',
+      `Invalid slot: unknown loop variable ${path[0]} in ${enclose(ctx, body)}`,
+      start + ns,
+      start + i
+    );
+  }
+  if (loopVar && !scope.inLoop) {
+    fail(
+      ctx,
+      'LOOP_VARIABLE_OUTSIDE_EACH',
+      `Invalid slot: ${path[0]} used outside {#each} in ${enclose(ctx, body)}`,
+      start + ns,
+      start + i
+    );
+  }
+
+  // dotted path segments: {user.address.city}, {items.0.title} (loop variables are scalars)
+  while (!loopVar && i < n && body.charCodeAt(i) === 46 /* '.' */) {
+    const ss = ++i;
+    if (i < n && isDigit(body.charCodeAt(i))) {
+      while (i < n && isDigit(body.charCodeAt(i))) i++;
+    } else if (i < n && isIdentStart(body.charCodeAt(i))) {
+      while (i < n && isIdent(body.charCodeAt(i))) i++;
+    } else {
+      fail(
+        ctx,
+        'INVALID_SLOT_NAME',
+        `Invalid slot: missing/invalid path segment in ${enclose(ctx, body)}`,
+        start + i,
+        start + i + 1
+      );
+    }
+    path.push(body.slice(ss, i));
+  }
+  let name = body.slice(ns, i);
+  const nameRange = rangeOf(ctx, start + ns, start + i);
 
   // optional whitespace
   while (i < n && body.charCodeAt(i) <= 32) i++;
 
+  // optional marker {name?} or inline default {name ?? "fallback"}
+  let optional = false;
+  let fallback: string | undefined;
+  let fallbackRange: SourceRange | undefined;
+  if (i < n && body.charCodeAt(i) === 63 /* '?' */) {
+    optional = true;
+    i++;
+    if (i < n && body.charCodeAt(i) === 63 /* '?' */) {
+      i++;
+      while (i < n && body.charCodeAt(i) <= 32) i++;
+      const ds = i;
+      const quote = body.charCodeAt(i);
+      if (quote === 34 /* " */ || quote === 39 /* ' */) {
+        i++;
+        while (i < n && body.charCodeAt(i) !== quote) {
+          if (body.charCodeAt(i) === 92 /* '\' */) i++;
+          i++;
+        }
+        if (i >= n) {
+          fail(
+            ctx,
+            'INVALID_DEFAULT',
+            `Invalid slot: unterminated default value in ${enclose(ctx, body)}`,
+            start + ds,
+            end
+          );
+        }
+        fallback = decodeArgString(body.slice(ds + 1, i));
+        i++;
+      } else {
+        while (i < n && body.charCodeAt(i) !== 124 /* '|' */) {
+          if (body.charCodeAt(i) === 92 /* '\' */) i++;
+          i++;
+        }
+        fallback = decodeArgString(body.slice(ds, i).trim());
+        if (!fallback) {
+          fail(
+            ctx,
+            'INVALID_DEFAULT',
+            `Invalid slot: missing default value in ${enclose(ctx, body)}`,
+            start + ds,
+            start + ds + 1
+          );
+        }
+      }
+      let de = i;
+      while (de > ds && body.charCodeAt(de - 1) <= 32) de--;
+      fallbackRange = rangeOf(ctx, start + ds, start + de);
+    }
+    while (i < n && body.charCodeAt(i) <= 32) i++;
+  }
+
   const filters: FilterSegment[] = [];
 
   // zero or more |filter[#args]
@@ -71,43 +302,72 @@ function parseSlotBody(body: string): SlotDescriptor {
 
     const fs = i;
     if (i >= n || !isIdentStart(body.charCodeAt(i))) {
-      throw new Error(`Invalid slot: missing/invalid filter in {${body}}`);
+      fail(
+        ctx,
+        'INVALID_FILTER_NAME',
+        `Invalid slot: missing/invalid filter in ${enclose(ctx, body)}`,
+        start + i,
+        start + i + 1
+      );
     }
     i++;
     while (i < n && isIdent(body.charCodeAt(i))) i++;
     const filterName = body.slice(fs, i);
+    let fe = i;
 
     while (i < n && body.charCodeAt(i) <= 32) i++;
 
-    let args: string[] = EMPTY_ARGS;
+    let args: FilterArg[] = EMPTY_ARGS;
+    let rawArgs: string[] = EMPTY_ARGS;
+    let argRanges: SourceRange[] = EMPTY_RANGES;
 
     if (i < n && body.charCodeAt(i) === 35 /* '#' */) {
       i++;
       while (i < n && body.charCodeAt(i) <= 32) i++;
 
-      const out: string[] = [];
+      const out: FilterArg[] = [];
+      const raws: string[] = [];
+      const ranges: SourceRange[] = [];
       let cur = '';
       let inQuote: number | null = null; // 34 or 39
       let escaped = false;
       let quotedThisArg = false;
+      let plain = true; // no quotes or escapes: the text may be a literal
       let argPushed = false;
+      let argStart = i;
+
+      const pushValue = (value: FilterArg, raw: string, argEnd: number) => {
+        out.push(value);
+        raws.push(raw);
+        ranges.push(rangeOf(ctx, start + argStart, start + argEnd));
+        fe = argEnd;
+        cur = '';
+        quotedThisArg = false;
+        plain = true;
+      };
 
       const pushArg = () => {
         let result;
         if (quotedThisArg) {
           // preserve spaces and decode escapes
           result = decodeArgString(cur);
-          out.push(result);
         } else {
           // Only trim if there are no escape sequences that could be meaningful whitespace
           const processed = decodeArgString(cur);
           const trimmed = decodeArgString(cur.trim());
           // If decoding changed the length significantly, don't trim
           result = (processed.length !== trimmed.length) ? processed : trimmed;
-          out.push(result);
         }
-        cur = '';
-        quotedThisArg = false;
+        // range covers the raw argument without surrounding (unescaped) spaces
+        let argEnd = i;
+        while (
+          argEnd > argStart &&
+          body.charCodeAt(argEnd - 1) <= 32 &&
+          body.charCodeAt(argEnd - 2) !== 92 /* '\' */
+        ) {
+          argEnd--;
+        }
+        pushValue(plain ? literalArg(result) : result, result, argEnd);
       };
 
       while (i < n) {
@@ -122,6 +382,7 @@ function parseSlotBody(body: string): SlotDescriptor {
 
         if (ch === 92 /* '\' */) {
           escaped = true;
+          plain = false;
           i++;
           continue;
         }
@@ -139,15 +400,39 @@ function parseSlotBody(body: string): SlotDescriptor {
         if (ch === 34 /* " */ || ch === 39 /* ' */) {
           inQuote = ch;
           quotedThisArg = true;
+          plain = false;
           i++;
           continue;
         }
 
+        if (ch === 91 /* '[' */ && i === argStart) {
+          // a well-formed list literal is one argument; anything else reads as text
+          const list = scanList(body, i, n);
+          if (list) {
+            let j = list.end;
+            while (j < n && body.charCodeAt(j) <= 32) j++;
+            const next = body.charCodeAt(j);
+            if (j === n || next === 44 /* ',' */ || next === 124 /* '|' */) {
+              pushValue(list.value, body.slice(i, list.end), list.end);
+              i = j;
+              if (next === 44 /* ',' */) {
+                i++;
+                while (i < n && body.charCodeAt(i) <= 32) i++;
+                argStart = i;
+                continue;
+              }
+              argPushed = true;
+              break;
+            }
+          }
+        }
+
         if (ch === 44 /* ',' */) {
           pushArg();
           // skip spaces after comma
           i++;
           while (i < n && body.charCodeAt(i) <= 32) i++;
+          argStart = i;
           continue;
         }
 
@@ -165,36 +450,144 @@ function parseSlotBody(body: string): SlotDescriptor {
         pushArg();
       }
       args = out.length ? freeze(out) : EMPTY_ARGS;
+      rawArgs = raws.length ? freeze(raws) : EMPTY_ARGS;
+      argRanges = ranges.length ? freeze(ranges) : EMPTY_RANGES;
+    }
+
+    const fn = ctx.filters[filterName];
+    if (fn) {
+      const checked = checkFilter(fn, { name: filterName, args, rawArgs });
+      if (!checked.ok) {
+        const at = argRanges[checked.index];
+        fail(
+          ctx,
+          'INVALID_FILTER_ARGS',
+          `Invalid filter arguments: ${checked.reason} in ${enclose(ctx, body)}`,
+          at ? at.start.offset : start + fs,
+          at ? at.end.offset : start + fe
+        );
+      }
     }
 
-    filters.push({ name: filterName, args });
+    filters.push({
+      name: filterName,
+      args,
+      rawArgs,
+      range: rangeOf(ctx, start + fs, start + fe),
+      argRanges,
+    });
     while (i < n && body.charCodeAt(i) <= 32) i++;
   }
 
   if (!filters.length && i < n && body.charCodeAt(i) === 35 /* '#' */) {
-    throw new Error(`Invalid slot: args provided without filter in {${body}}`);
+    fail(
+      ctx,
+      'ARGS_WITHOUT_FILTER',
+      `Invalid slot: args provided without filter in ${enclose(ctx, body)}`,
+      start + i,
+      start + i + 1
+    );
   }
 
   // trailing spaces allowed
   while (i < n && body.charCodeAt(i) <= 32) i++;
   if (i !== n) {
-    throw new Error(`Invalid slot: unexpected trailing content in {${body}}`);
+    fail(
+      ctx,
+      'UNEXPECTED_TRAILING_CONTENT',
+      `Invalid slot: unexpected trailing content in ${enclose(ctx, body)}`,
+      start + i,
+      end
+    );
+  }
+
+  const range = rangeOf(ctx, open, close);
+  let local = loopVar || scope.aliases.includes(path[0]!);
+  if (!local && scope.base) {
+    path.unshift(...scope.base.path!);
+    name = `${scope.base.name}.${name}`;
+    local = scope.base.local === true;
   }
+  const locality = local ? { local: true } : undefined;
+  const presence = !optional
+    ? undefined
+    : fallback === undefined
+      ? { optional: true }
+      : { optional: true, fallback, fallbackRange };
 
   if (!filters.length) {
-    return freeze({ name, args: EMPTY_ARGS });
+    return freeze({
+      name,
+      path: freeze(path),
+      args: EMPTY_ARGS,
+      range,
+      nameRange,
+      ...locality,
+      ...presence,
+    });
   }
 
-  const chain = freeze(filters.map(f => freeze({ name: f.name, args: f.args })));
+  const chain = freeze(
+    filters.map(({ name, args, rawArgs, range, argRanges }) =>
+      freeze({ name, args, rawArgs, range, argRanges })
+    )
+  );
 
   return freeze({
     name,
+    path: freeze(path),
     filter: chain[0]!.name,
-    args: chain[0]!.args,
+    args: chain[0]!.rawArgs,
     filters: chain,
+    range,
+    nameRange,
+    ...locality,
+    ...presence,
   });
 }
 
+/**
+ * Scan a bracketed list literal starting at `[`: comma-separated numbers, booleans, null,
+ * quoted strings, bare words and nested lists. Returns undefined if it is not well-formed.
+ */
+function scanList(
+  body: string,
+  i: number,
+  n: number
+): { value: readonly FilterArg[]; end: number } | undefined {
+  const items: FilterArg[] = [];
+  i++;
+  while (i < n && body.charCodeAt(i) <= 32) i++;
+  if (body.charCodeAt(i) === 93 /* ']' */) return { value: freeze(items), end: i + 1 };
+
+  for (;;) {
+    while (i < n && body.charCodeAt(i) <= 32) i++;
+    const ch = body.charCodeAt(i);
+    if (ch === 91 /* '[' */) {
+      const inner = scanList(body, i, n);
+      if (!inner) return undefined;
+      items.push(inner.value);
+      i = inner.end;
+    } else if (ch === 34 /* " */ || ch === 39 /* ' */) {
+      const s = ++i;
+      while (i < n && body.charCodeAt(i) !== ch) i += body.charCodeAt(i) === 92 /* '\' */ ? 2 : 1;
+      if (i >= n) return undefined;
+      items.push(decodeArgString(body.slice(s, i++)));
+    } else {
+      const s = i;
+      while (i < n && !',]|[\\"\''.includes(body[i]!)) i++;
+      const text = body.slice(s, i).trim();
+      const stop = body.charCodeAt(i);
+      if (!text || (stop !== 44 /* ',' */ && stop !== 93 /* ']' */)) return undefined;
+      items.push(literalArg(text));
+    }
+    while (i < n && body.charCodeAt(i) <= 32) i++;
+    const sep = body.charCodeAt(i++);
+    if (sep === 93 /* ']' */) return { value: freeze(items), end: i };
+    if (sep !== 44 /* ',' */) return undefined;
+  }
+}
+
 function decodeArgString(s: string): string {
   if (s.indexOf('\\') === -1) return s;
   let out = '';
@@ -206,70 +599,527 @@ function decodeArgString(s: string): string {
   return out;
 }
 
-/** Main parser: splits into chunks and slots; decodes text escapes (\n, \t, \{, \}, \\) */
-export const parseTemplate = (source: string) => {
+/** Block section currently open while parsing ({#if}/{#unless}/{#each}) */
+interface OpenBlock {
+  readonly kind: 'if' | 'unless' | 'each' | 'with';
+  /** Condition slot, the collection slot for {#each} or the base path for {#with} */
+  readonly subject: SlotDescriptor;
+  /** Loop alias for {#each} */
+  readonly alias?: string;
+  /** Offsets of the opening tag's '{' and just past its '}' */
+  readonly open: number;
+  readonly openEnd: number;
+  readonly body: TemplateNode[];
+  elseBody: TemplateNode[] | null;
+}
+
+/** Trailing `as <alias>` of an {#each} tag */
+const EACH_SPEC = /\s+as\s+([A-Za-z_][A-Za-z0-9_]*)\s*$/;
+
+/** Read an identifier keyword starting at `i`; returns its end offset */
+function scanKeyword(source: string, i: number, end: number): number {
+  while (i < end && isIdent(source.charCodeAt(i))) i++;
+  return i;
+}
+
+/** True when a body ends in a " -" trim marker (whitespace, then '-', then the delimiter) */
+const hasTrimAfter = (source: string, start: number, end: number) =>
+  end - start >= 2 &&
+  source.charCodeAt(end - 1) === 45 /* '-' */ &&
+  source.charCodeAt(end - 2) <= 32;
+
+const isBlank = (source: string, start: number, end: number) => {
+  for (let i = start; i < end; i++) if (source.charCodeAt(i) > 32) return false;
+  return true;
+};
+
+/**
+ * Main parser: splits into chunks and slots; decodes text escapes (\n, \t, \{, \}, \\).
+ * Every slot, filter and argument carries its source range.
+ *
+ * Section tags build a node tree alongside the flat view:
+ *   {#if cond}…{#else}…{/if}  and  {#unless cond}…{#else}…{/unless}
+ *   {#each items as item}…{#else}…{/each}
+ *   {#with base.path}…{/with}
+ * where `cond`/`items` are regular slot bodies (name, dotted path, filters).
+ * Inside {#each}, slots may read the alias and @index/@first/@last; such slots are `local`.
+ * {#with} adds no node: names inside it are rebased below its path ({city} -> base.path.city).
+ * Partial includes {>name} must be inlined by a registry first (see expandPartials).
+ * For templates with sections, chunks/slots are a flattened document-order view
+ * (condition/collection slots included) and `nodes` holds the structure used for rendering.
+ *
+ * With `{ recover: true }` malformed slots and tags are skipped instead of aborting the parse:
+ * parsing continues after each bad slot and every problem is reported in `diagnostics`.
+ *
+ * Comments {! note } are dropped (they end at the first close delimiter). Trim markers
+ * eat the whitespace next to a slot, tag or comment: `{- name -}` strips the end of the
+ * preceding text and the start of the following text; the closing dash needs whitespace
+ * before it so `{n|pad#5,-}` keeps its argument.
+ *
+ * `{ delimiters: ['{{', '}}'] }` replaces the braces around slots and section tags;
+ * a backslash before the open delimiter keeps it literal.
+ *
+ * @throws LoomParseError if the source is malformed (unless recovering)
+ * @throws Error if the delimiters are invalid
+ */
+export const parseTemplate = (source: string, options?: ParseOptions): ParseResult => {
+  const delimiters = options?.delimiters ?? DEFAULT_DELIMITERS;
+  if (delimiters !== DEFAULT_DELIMITERS) checkDelimiters(delimiters);
+  const filters = options?.filters ? { ...builtinFilters, ...options.filters } : builtinFilters;
+  const ctx = createContext(source, delimiters, filters);
+  const [openD, closeD] = delimiters;
+  const open0 = openD.charCodeAt(0);
+  const recover = options?.recover === true;
   const chunks: string[] = [];
   const slots: SlotDescriptor[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+
+  const report = (e: LoomParseError) => {
+    if (!recover) throw e;
+    diagnostics.push(
+      freeze({ severity: 'error' as const, code: e.code, message: e.reason, range: e.range })
+    );
+  };
 
   let i = 0;
   const n = source.length;
-  let buf = ''; // current text buffer
+  let buf = ''; // text since the last slot (flat chunks)
+  let text = ''; // text since the last slot or tag (text nodes)
+  let keep = 0; // length of `text` a {- trim marker must not eat (ends with an escape)
+  let trimNext = false; // a -} trim marker eats the whitespace that follows
+
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.elseBody ?? top.body) : root;
+  };
 
-  while (i < n) {
+  const flushText = () => {
+    if (text) target().push(freeze({ kind: 'text' as const, value: text }));
+    text = '';
+    keep = 0;
+  };
+
+  // {- trim marker: drop the whitespace ending the pending text (escaped characters stay)
+  const trimPending = () => {
+    let k = text.length;
+    while (k > keep && text.charCodeAt(k - 1) <= 32) k--;
+    buf = buf.slice(0, buf.length - (text.length - k));
+    text = text.slice(0, k);
+  };
+
+  // chunks[k] is always the (possibly empty) text before slots[k]
+  const addSlot = (slot: SlotDescriptor) => {
+    chunks.push(buf);
+    buf = '';
+    slots.push(slot);
+  };
+
+  // {#each} aliases up to the innermost {#with}, loop state and {#with} base
+  const scope = (): SlotScope => {
+    const aliases: string[] = [];
+    let base: SlotDescriptor | undefined;
+    for (let k = stack.length - 1; k >= 0 && !base; k--) {
+      const block = stack[k]!;
+      if (block.kind === 'with') base = block.subject;
+      else if (block.alias !== undefined) aliases.unshift(block.alias);
+    }
+    return { aliases, inLoop: stack.some(b => b.kind === 'each'), base };
+  };
+
+  const closeBlock = (block: OpenBlock, close: number) => {
+    // {#with} only rebases names: its body already lives in the enclosing node list
+    if (block.kind === 'with') return;
+    const body = freeze(block.body);
+    const elseBody = freeze(block.elseBody ?? []);
+    const range = rangeOf(ctx, block.open, close);
+    const node: ConditionalNode | EachNode =
+      block.kind === 'each'
+        ? freeze({
+            kind: 'each' as const,
+            collection: block.subject,
+            alias: block.alias!,
+            body,
+            elseBody,
+            range,
+          })
+        : freeze({
+            kind: 'if' as const,
+            negate: block.kind === 'unless',
+            condition: block.subject,
+            body,
+            elseBody,
+            range,
+          });
+    target().push(node);
+  };
+
+  /**
+   * Handle {#…} and {/…} tags; `start`/`end` delimit the tag body (trim markers excluded),
+   * `open`/`close` the whole tag.
+   */
+  const parseTag = (open: number, start: number, end: number, close: number) => {
+    let k = start;
+    while (k < end && source.charCodeAt(k) <= 32) k++;
+    const closing = source.charCodeAt(k) === 47; /* '/' */
+    const ks = k + 1;
+    const ke = scanKeyword(source, ks, end);
+    const keyword = source.slice(ks, ke);
+    const tag = source.slice(open, close);
+
+    if (closing) {
+      const top = stack[stack.length - 1];
+      if (!top || top.kind !== keyword || !isBlank(source, ke, end)) {
+        fail(ctx, 'UNEXPECTED_BLOCK_CLOSE', `Invalid template: unexpected ${tag}`, open, close);
+      }
+      flushText();
+      stack.pop();
+      closeBlock(top, close);
+      return;
+    }
+
+    if (keyword === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.kind === 'with' || top.elseBody || !isBlank(source, ke, end)) {
+        fail(ctx, 'UNEXPECTED_ELSE', `Invalid template: unexpected ${tag}`, open, close);
+      }
+      flushText();
+      top.elseBody = [];
+      return;
+    }
+
+    if (keyword === 'if' || keyword === 'unless') {
+      if (ke < end && source.charCodeAt(ke) > 32) {
+        fail(ctx, 'UNKNOWN_BLOCK', `Invalid template: unknown section ${tag}`, open, close);
+      }
+      const condition = parseSlotBody(ctx, ke, end, open, close, scope());
+      flushText();
+      addSlot(condition);
+      stack.push({
+        kind: keyword,
+        subject: condition,
+        open,
+        openEnd: close,
+        body: [],
+        elseBody: null,
+      });
+      return;
+    }
+
+    if (keyword === 'each') {
+      // {#each <slot body> as <alias>}
+      const spec = EACH_SPEC.exec(source.slice(ke, end));
+      if (!spec || (ke < end && source.charCodeAt(ke) > 32)) {
+        const usage = enclose(ctx, '#each <name> as <alias>');
+        const reason = `Invalid template: expected ${usage} in ${tag}`;
+        fail(ctx, 'INVALID_EACH', reason, open, close);
+      }
+      const collection = parseSlotBody(ctx, ke, ke + spec.index, open, close, scope());
+      flushText();
+      addSlot(collection);
+      stack.push({
+        kind: 'each',
+        subject: collection,
+        alias: spec[1]!,
+        open,
+        openEnd: close,
+        body: [],
+        elseBody: null,
+      });
+      return;
+    }
+
+    if (keyword === 'with') {
+      // {#with <path>}: a plain (possibly dotted) params path, no filters or defaults
+      const base =
+        ke < end && source.charCodeAt(ke) <= 32
+          ? parseSlotBody(ctx, ke, end, open, close, scope())
+          : undefined;
+      if (!base || base.filters || base.optional || base.name.startsWith('@')) {
+        const usage = enclose(ctx, '#with <path>');
+        const reason = `Invalid template: expected ${usage} in ${tag}`;
+        fail(ctx, 'INVALID_WITH', reason, open, close);
+      }
+      flushText();
+      stack.push({
+        kind: 'with',
+        subject: base,
+        open,
+        openEnd: close,
+        body: target(),
+        elseBody: null,
+      });
+      return;
+    }
+
+    fail(ctx, 'UNKNOWN_BLOCK', `Invalid template: unknown section ${tag}`, open, close);
+  };
+
+  scan: while (i < n) {
     const ch = source.charCodeAt(i);
 
     if (ch === 92 /* '\' */) {
       // decode known escapes in TEXT
-      if (i + 1 < n) {
-        buf += decodeTextEscape(source[i + 1]);
-        i += 2;
-        continue;
-      }
-      // lone trailing backslash
-      buf += source[i++];
+      const decoded = i + 1 < n ? decodeTextEscape(source[i + 1]) : source[i];
+      buf += decoded;
+      text += decoded;
+      keep = text.length;
+      trimNext = false;
+      i += i + 1 < n ? 2 : 1; // lone trailing backslash stays literal
       continue;
     }
 
-    if (ch === 123 /* '{' */) {
-      // flush text
-      if (buf) {
-        chunks.push(buf);
-        buf = '';
+    if (ch === open0 && source.startsWith(openD, i)) {
+      const open = i;
+      i += openD.length;
+      trimNext = false;
+
+      // {- leading trim marker
+      const trimBefore = source.charCodeAt(i) === 45; /* '-' */
+      if (trimBefore) i++;
+
+      // {! comment }: discarded up to the first close delimiter, braces allowed inside
+      if (source.charCodeAt(i) === 33 /* '!' */) {
+        const close = source.indexOf(closeD, i);
+        if (close === -1) {
+          const reason = 'Invalid template: unclosed comment';
+          report(parseError(ctx, 'UNMATCHED_OPEN_BRACE', reason, open, i + 1));
+          break;
+        }
+        if (trimBefore) trimPending();
+        trimNext = hasTrimAfter(source, i + 1, close);
+        i = close + closeD.length;
+        continue;
       }
-      // find matching }
-      i++;
+
+      // find the matching close delimiter
       const start = i;
-      let depth = 1;
+      let closed = false;
       while (i < n) {
         const c = source.charCodeAt(i);
         if (c === 92 /* '\' */) { i += 2; continue; } // skip escaped char inside slot body
-        if (c === 123 /* '{' */) {
-          throw new Error(`Invalid template: nested '{' at ${i} in "${source.slice(start - 1)}"`);
+        if (source.startsWith(openD, i)) {
+          const reason = `Invalid template: nested '${openD}' in slot`;
+          report(parseError(ctx, 'NESTED_OPEN_BRACE', reason, i, i + openD.length));
+          // recovering: drop the broken slot and restart at the inner open delimiter
+          continue scan;
         }
-        if (c === 125 /* '}' */) {
-          depth--;
-          if (depth === 0) break;
+        if (source.startsWith(closeD, i)) {
+          closed = true;
+          break;
         }
         i++;
       }
-      if (i >= n || source.charCodeAt(i) !== 125 /* '}' */) {
-        throw new Error(`Invalid template: unmatched '{' at index ${start - 1}`);
+      if (!closed) {
+        const reason = `Invalid template: unmatched '${openD}'`;
+        report(parseError(ctx, 'UNMATCHED_OPEN_BRACE', reason, open, start));
+        // recovering: nothing after an unclosed open delimiter can be a slot
+        break;
+      }
+
+      // -} trailing trim marker (needs whitespace before it: {n|pad#5,-} keeps its argument)
+      const trimAfter = hasTrimAfter(source, start, i);
+      const end = trimAfter ? i - 1 : i;
+      const close = i + closeD.length;
+      if (trimBefore) trimPending();
+
+      let lead = start;
+      while (lead < end && source.charCodeAt(lead) <= 32) lead++;
+      const isTag =
+        source.charCodeAt(lead) === 35 /* '#' */ || source.charCodeAt(lead) === 47; /* '/' */
+
+      try {
+        if (isTag) {
+          parseTag(open, start, end, close);
+        } else if (source.charCodeAt(lead) === 62 /* '>' */) {
+          // partials are inlined by a registry before parsing; any left over are unknown
+          const tag = source.slice(open, close);
+          const reason = `Invalid template: unknown partial ${tag}`;
+          fail(ctx, 'UNKNOWN_PARTIAL', reason, open, close);
+        } else {
+          const slot = parseSlotBody(ctx, start, end, open, close, scope());
+          flushText();
+          target().push(freeze({ kind: 'slot' as const, slot }));
+          addSlot(slot);
+        }
+      } catch (e) {
+        if (!(e instanceof LoomParseError)) throw e;
+        report(e);
       }
+      trimNext = trimAfter;
+      i = close;
+      continue;
+    }
 
-      const body = source.slice(start, i);
-      slots.push(parseSlotBody(body));
-      i++; // skip '}'
+    if (trimNext && ch <= 32) {
+      i++;
       continue;
     }
+    trimNext = false;
 
     // normal text
-    buf += source[i++];
+    buf += source[i];
+    text += source[i++];
+  }
+
+  flushText();
+  while (stack.length) {
+    const block = stack[stack.length - 1]!;
+    const reason = `Invalid template: unclosed ${enclose(ctx, `#${block.kind}`)}`;
+    report(parseError(ctx, 'UNCLOSED_BLOCK', reason, block.open, block.openEnd));
+    // recovering: close the section at the end of the source
+    stack.pop();
+    closeBlock(block, n);
   }
 
+  // trailing text after the last slot is only kept when non-empty
   if (buf) chunks.push(buf);
 
   return freeze({
     chunks: freeze(chunks),
     slots: freeze(slots),
+    nodes: freeze(root),
+    diagnostics: freeze(diagnostics),
   });
 };
+
+/** Body of an include tag after '>': `name` or `name with path` */
+const INCLUDE_SPEC = /^([A-Za-z_][A-Za-z0-9_-]*)(?:\s+with\s+(\S(?:[^]*\S)?))?$/;
+
+/**
+ * Where expandPartials inlined an include: the partial, the inlined text's offsets in the
+ * expanded source and the include tag's offsets in the original one.
+ * @internal
+ */
+export interface IncludeSpan {
+  readonly name: string;
+  readonly start: number;
+  readonly end: number;
+  readonly tagStart: number;
+  readonly tagEnd: number;
+}
+
+/**
+ * Inline the {>name} and {>name with path} includes of a source, recursively.
+ * A plain include is replaced by the partial's source; a remapped one is wrapped in
+ * {#with path}…{/with} so the partial's names are read below `path`.
+ * The open delimiter must be directly followed by '>'; escaped delimiters and comments
+ * ({! … }, which the parser discards) are skipped.
+ *
+ * @param source - Source to expand
+ * @param delimiters - Slot delimiters shared by the source and every partial
+ * @param partials - Raw partial sources by name
+ * @param trail - Names of the partials being expanded (for cycle detection)
+ * @param cache - Expanded partial sources by name, filled as partials are inlined
+ * @param includes - Filled with the spans of the includes of `source` (see remapParseError)
+ * @returns The source with every include inlined
+ * @throws LoomParseError for unknown or malformed includes and include cycles
+ * @internal
+ */
+export function expandPartials(
+  source: string,
+  delimiters: Delimiters,
+  partials: ReadonlyMap<string, string>,
+  trail: readonly string[] = [],
+  cache = new Map<string, string>(),
+  includes?: IncludeSpan[]
+): string {
+  if (delimiters !== DEFAULT_DELIMITERS) checkDelimiters(delimiters);
+  const [openD, closeD] = delimiters;
+  const marker = `${openD}>`;
+  let ctx: ParseContext | undefined;
+  let out = '';
+  let last = 0;
+  let i = 0;
+
+  while (i < source.length) {
+    if (source.charCodeAt(i) === 92 /* '\' */) {
+      i += 2;
+      continue;
+    }
+    if (!source.startsWith(openD, i)) {
+      i++;
+      continue;
+    }
+    // {! comment } or {-! comment }: left as it is, up to the first close delimiter
+    const body = i + openD.length + (source.charCodeAt(i + openD.length) === 45 /* '-' */ ? 1 : 0);
+    if (source.charCodeAt(body) === 33 /* '!' */) {
+      const closing = source.indexOf(closeD, body);
+      if (closing === -1) break; // left for the parser to report
+      i = closing + closeD.length;
+      continue;
+    }
+    if (!source.startsWith(marker, i)) {
+      i++;
+      continue;
+    }
+    const end = source.indexOf(closeD, i + marker.length);
+    if (end === -1) break; // left for the parser to report
+    const close = end + closeD.length;
+    const tag = source.slice(i, close);
+    const spec = INCLUDE_SPEC.exec(source.slice(i + marker.length, end).trim());
+    const name = spec?.[1];
+    ctx ??= createContext(source, delimiters);
+
+    if (!spec || !name || !partials.has(name)) {
+      const reason = `Invalid template: ${spec ? 'unknown' : 'malformed'} partial ${tag}`;
+      fail(ctx, 'UNKNOWN_PARTIAL', reason, i, close);
+    }
+    if (trail.includes(name)) {
+      const reason = `Invalid template: partial cycle ${[...trail, name].join(' -> ')}`;
+      fail(ctx, 'PARTIAL_CYCLE', reason, i, close);
+    }
+
+    let text = cache.get(name);
+    if (text === undefined) {
+      text = expandPartials(partials.get(name)!, delimiters, partials, [...trail, name], cache);
+      cache.set(name, text);
+    }
+    const path = spec[2];
+    out += source.slice(last, i);
+    const start = out.length;
+    out += path ? `${openD}#with ${path}${closeD}${text}${openD}/with${closeD}` : text;
+    includes?.push({ name, start, end: out.length, tagStart: i, tagEnd: close });
+    last = i = close;
+  }
+
+  return last === 0 ? source : out + source.slice(last);
+}
+
+/**
+ * Map an offset in an expanded source back to the original one. Offsets inside inlined
+ * text map to the include tag: its start, or its end for the end of a range.
+ */
+function originalOffset(offset: number, includes: readonly IncludeSpan[], isEnd: boolean) {
+  let shift = 0;
+  for (const span of includes) {
+    if (isEnd ? offset <= span.start : offset < span.start) break;
+    if (isEnd ? offset <= span.end : offset < span.end) return isEnd ? span.tagEnd : span.tagStart;
+    shift = span.end - span.tagEnd;
+  }
+  return offset - shift;
+}
+
+/**
+ * Report a parse error of an expanded source against the source the user wrote: its range
+ * is mapped back through the inlined includes, and its code frame shows the original.
+ *
+ * @param error - Error thrown parsing the expanded source
+ * @param source - Source before expansion
+ * @param delimiters - Slot delimiters of the source
+ * @param includes - Include spans recorded by expandPartials
+ * @returns The error with its range and frame in `source`
+ * @internal
+ */
+export function remapParseError(
+  error: LoomParseError,
+  source: string,
+  delimiters: Delimiters,
+  includes: readonly IncludeSpan[]
+): LoomParseError {
+  if (!includes.length) return error;
+  const start = originalOffset(error.range.start.offset, includes, false);
+  const end = Math.max(start, originalOffset(error.range.end.offset, includes, true));
+  return parseError(createContext(source, delimiters), error.code, error.reason, start, end);
+}
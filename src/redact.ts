@@ -0,0 +1,195 @@
+/**
+ * Secret slots and redacted output for loomstr templates.
+ * Slots are secret by name pattern (policy or compile option) or by the `secret` filter.
+ * Redacted renders mask their values, for logging, and errors raised while evaluating them
+ * never carry the value.
+ */
+
+import type {
+  Delimiters,
+  ExactParamsFor,
+  FilterTypeMap,
+  RedactOptions,
+  ResolvedPolicy,
+  SlotDescriptor,
+  SlotKeys,
+  Template,
+  TemplateNode,
+  TemplateParts,
+  TemplatePolicy,
+} from './types';
+import { mergePolicy, resolvePolicy } from './filters';
+import { createHmac } from 'node:crypto';
+import { stringifier } from './escape';
+
+/** Output of the 'mask' strategy, whatever the length of the secret */
+const MASK = '********';
+
+/** The {#each} collection slot a local slot reads an element of (see trackAliases) */
+const aliasOrigins = new WeakMap<SlotDescriptor, SlotDescriptor>();
+
+/**
+ * Record the {#each} collection each local slot of a node list reads from, so a loop alias
+ * is secret when its collection is.
+ * @internal
+ */
+export function trackAliases(
+  nodes: readonly TemplateNode[],
+  aliases: ReadonlyMap<string, SlotDescriptor> = new Map()
+): void {
+  const note = (slot: SlotDescriptor) => {
+    const origin = slot.local && slot.path ? aliases.get(slot.path[0]!) : undefined;
+    if (origin) aliasOrigins.set(slot, origin);
+  };
+  for (const node of nodes) {
+    if (node.kind === 'slot') {
+      note(node.slot);
+    } else if (node.kind === 'if') {
+      note(node.condition);
+      trackAliases(node.body, aliases);
+      trackAliases(node.elseBody, aliases);
+    } else if (node.kind === 'each') {
+      note(node.collection);
+      trackAliases(node.body, new Map(aliases).set(node.alias, node.collection));
+      trackAliases(node.elseBody, aliases);
+    }
+  }
+}
+
+/**
+ * Whether a slot holds a secret under a policy: it has the `secret` filter, its name
+ * matches one of the policy's secret patterns, or it reads a loop alias of a secret
+ * collection.
+ * @internal
+ */
+export function isSecret(slot: SlotDescriptor, rp: ResolvedPolicy): boolean {
+  if (slot.filter === 'secret' || slot.filters?.some(f => f.name === 'secret')) return true;
+  const origin = aliasOrigins.get(slot);
+  if (origin && isSecret(origin, rp)) return true;
+  if (!rp.secrets) return false;
+  const last = slot.path ? slot.path[slot.path.length - 1] : slot.name;
+  return rp.secrets.some(pattern =>
+    typeof pattern === 'string'
+      ? pattern === slot.name || pattern === last
+      : slot.name.search(pattern) !== -1
+  );
+}
+
+/**
+ * The error reported instead of one thrown while evaluating a secret slot, whose message
+ * or properties may hold the value.
+ * @internal
+ */
+export const secretError = (slot: SlotDescriptor): Error =>
+  new Error(`Failed to evaluate secret slot "${slot.name}" (details withheld)`);
+
+/**
+ * Convert a slot's value with the policy's asString; what it throws for a secret slot (its
+ * message may hold the value) is replaced by secretError.
+ * @internal
+ */
+export function slotString(slot: SlotDescriptor, value: unknown, rp: ResolvedPolicy): string {
+  try {
+    return rp.asString(value);
+  } catch (error) {
+    throw isSecret(slot, rp) ? secretError(slot) : error;
+  }
+}
+
+/** Mask a secret's text with the strategy of the options */
+function mask(text: string, slot: SlotDescriptor, options: RedactOptions | undefined): string {
+  const strategy = options?.strategy ?? 'mask';
+  switch (strategy) {
+    case 'mask':
+      return MASK;
+    case 'last4':
+      return text.length >= 8 ? `****${text.slice(-4)}` : MASK;
+    case 'hash':
+      return `hmac:${createHmac('sha256', options!.key!).update(text).digest('hex').slice(0, 16)}`;
+    default:
+      return strategy(text, slot);
+  }
+}
+
+/**
+ * Convert a template to parts like toParts, with the values of secret slots replaced by
+ * their masked text (converted with asString first).
+ *
+ * @param t - The template
+ * @param params - Object containing values for template slots
+ * @param policy - Optional policy for transforms, custom filters and secret patterns
+ * @param options - Optional masking strategy (default 'mask') and the key of 'hash'
+ * @returns Template parts with secret values masked
+ * @throws Error as toParts does, never carrying a secret value, or if 'hash' has no key
+ *
+ * @example
+ * ```typescript
+ * const t = loom.compile("login {user} with {password}");
+ * toPartsRedacted(t, { user: "ada", password: "hunter22" }, { secrets: ["password"] }).values;
+ * // ["ada", "********"]
+ * ```
+ */
+export function toPartsRedacted<
+  S extends string,
+  D extends Delimiters,
+  P extends Record<SlotKeys<S, D>, unknown>,
+  FT extends FilterTypeMap,
+>(
+  t: Template<S, D, FT>,
+  params: ExactParamsFor<S, P, D, FT>,
+  policy?: TemplatePolicy,
+  options?: RedactOptions
+): TemplateParts {
+  if (options?.strategy === 'hash' && !options.key?.length) {
+    throw new Error("redact: the 'hash' strategy needs a key");
+  }
+  const rp = resolvePolicy(mergePolicy(t.policy, policy));
+  const parts = t.toParts(params, policy);
+  const values = parts.values.map((value, i) => {
+    const slot = parts.slots[i]!;
+    return isSecret(slot, rp) ? mask(slotString(slot, value, rp), slot, options) : value;
+  });
+  return { chunks: parts.chunks, slots: parts.slots, values };
+}
+
+/**
+ * Render a template with the values of its secret slots masked, for logs.
+ * Secret slots are those with the `secret` filter or matching the policy's (or the compile
+ * option's) secret patterns. Errors are the ones render throws, except that an error thrown
+ * by a secret slot's transform, filters or asString is replaced by one without the value.
+ *
+ * @param t - The template to render
+ * @param params - Object containing values for template slots
+ * @param policy - Optional policy for transforms, custom filters and secret patterns
+ * @param options - Optional masking strategy: 'mask' (default), 'last4', 'hash' (with its
+ * key) or a function
+ * @returns Rendered string with secret values masked
+ *
+ * @example
+ * ```typescript
+ * const t = loom.compile("charge {card|secret} for {amount}");
+ * renderRedacted(t, { card: "4111111111111111", amount: 5 }, undefined, { strategy: 'last4' });
+ * // "charge ****1111 for 5"
+ * ```
+ */
+export function renderRedacted<
+  S extends string,
+  D extends Delimiters,
+  P extends Record<SlotKeys<S, D>, unknown>,
+  FT extends FilterTypeMap,
+>(
+  t: Template<S, D, FT>,
+  params: ExactParamsFor<S, P, D, FT>,
+  policy?: TemplatePolicy,
+  options?: RedactOptions
+): string {
+  const rp = resolvePolicy(mergePolicy(t.policy, policy));
+  const str = stringifier(t.nodes, rp);
+  const parts = toPartsRedacted(t, params, policy, options);
+  let out = parts.chunks[0] ?? '';
+  for (let i = 0; i < parts.slots.length; i++) {
+    out += str(parts.slots[i]!, parts.values[i]);
+    out += parts.chunks[i + 1] ?? '';
+  }
+  return out;
+}
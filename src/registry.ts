@@ -0,0 +1,143 @@
+/**
+ * Partial registry for loomstr templates.
+ * Resolves {>name} and {>name with path} includes against named partials.
+ */
+
+import type {
+  CompileOptions,
+  DefaultDelimiters,
+  Delimiters,
+  PartialSources,
+  Template,
+  TemplatePolicy,
+  TemplateRegistry,
+} from './types';
+import {
+  DEFAULT_DELIMITERS,
+  type IncludeSpan,
+  expandPartials,
+  parseTemplate,
+  remapParseError,
+} from './parser';
+import { CompiledTemplate } from './template';
+import { LoomParseError } from './errors';
+import { mergePolicy } from './filters';
+
+/**
+ * Compile an expanded source with the registry's compile options and a policy, reporting
+ * parse errors at their place in the original
+ */
+function compileExpanded<D extends Delimiters>(
+  text: string,
+  source: string,
+  includes: readonly IncludeSpan[],
+  options: CompileOptions<D> & { readonly delimiters: D },
+  policy: TemplatePolicy | undefined
+): Template<string, D> {
+  const { delimiters, filters, codegen } = options;
+  try {
+    const { chunks, slots, nodes } = parseTemplate(text, { delimiters, filters });
+    return new CompiledTemplate(text, chunks, slots, nodes, delimiters, policy, codegen);
+  } catch (e) {
+    throw e instanceof LoomParseError ? remapParseError(e, source, delimiters, includes) : e;
+  }
+}
+
+/**
+ * Create a registry of named partials.
+ * Entries are compiled templates or raw sources; raw sources may include other partials.
+ * Every partial is expanded up front, so unknown includes and include cycles fail here.
+ * The compile options apply to every template of the registry, and the policy of a compiled
+ * entry (its secret patterns, or a createLoom instance's policy) to every template that
+ * includes it, layered in the order the includes come in.
+ *
+ * @param partials - Partials by name
+ * @param options - Optional compile options (delimiters, filters, codegen and secret patterns)
+ * @returns Registry whose compile() inlines includes
+ * @throws LoomParseError for unknown partials or include cycles
+ * @throws Error if a template entry was compiled with other delimiters
+ *
+ * @example
+ * ```typescript
+ * const partials = registry({
+ *   header: compile("Dear {name},\n"),
+ *   address: "{street}, {city}",
+ * });
+ * const letter = partials.compile("{>header}Ship to {>address with shipping}.");
+ * letter.render({ name: "Ada", shipping: { street: "1 Loop Rd", city: "Oslo" } });
+ * // "Dear Ada,\nShip to 1 Loop Rd, Oslo."
+ * ```
+ */
+export function registry<
+  const R extends Record<string, string | Template<string, D>>,
+  const D extends Delimiters = DefaultDelimiters,
+>(partials: R, options?: CompileOptions<D>): TemplateRegistry<PartialSources<R>, D> {
+  type M = PartialSources<R>;
+  const delimiters = (options?.delimiters ?? DEFAULT_DELIMITERS) as D;
+  const compileOptions = { ...options, delimiters };
+  const secrets = options?.secrets ? { secrets: options.secrets } : undefined;
+
+  const sources = new Map<string, string>();
+  const policies = new Map<string, TemplatePolicy>();
+  for (const [name, entry] of Object.entries(partials)) {
+    if (typeof entry === 'string') {
+      sources.set(name, entry);
+      continue;
+    }
+    if (entry.delimiters[0] !== delimiters[0] || entry.delimiters[1] !== delimiters[1]) {
+      throw new Error(`registry: partial "${name}" uses different delimiters`);
+    }
+    sources.set(name, entry.source);
+    if (entry.policy) policies.set(name, entry.policy);
+  }
+
+  // the partials each partial includes directly, to find the policies a template takes on
+  const included = new Map<string, readonly string[]>();
+  const policyOf = (names: readonly string[]) => {
+    let policy: TemplatePolicy | undefined;
+    const seen = new Set<string>();
+    const visit = (name: string) => {
+      if (seen.has(name)) return;
+      seen.add(name);
+      policy = mergePolicy(policy, policies.get(name));
+      for (const inner of included.get(name) ?? []) visit(inner);
+    };
+    names.forEach(visit);
+    return mergePolicy(policy, secrets);
+  };
+
+  const expanded = new Map<string, string>();
+  const texts = new Map<string, { text: string; includes: IncludeSpan[] }>();
+  for (const [name, source] of sources) {
+    const includes: IncludeSpan[] = [];
+    const text = expandPartials(source, delimiters, sources, [name], expanded, includes);
+    expanded.set(name, text);
+    texts.set(name, { text, includes });
+    included.set(name, includes.map(span => span.name));
+  }
+  const compiled = new Map<string, Template<string, D>>();
+  for (const [name, { text, includes }] of texts) {
+    const policy = policyOf([name]);
+    compiled.set(name, compileExpanded(text, sources.get(name)!, includes, compileOptions, policy));
+  }
+
+  type Registry = TemplateRegistry<M, D>;
+  const reg: Registry = {
+    delimiters,
+    names: Object.freeze([...sources.keys()]) as readonly (keyof M & string)[],
+
+    get: ((name: string) => {
+      const t = compiled.get(name);
+      if (!t) throw new Error(`registry: unknown partial "${name}"`);
+      return t;
+    }) as Registry['get'],
+
+    compile: ((source: string) => {
+      const includes: IncludeSpan[] = [];
+      const text = expandPartials(source, delimiters, sources, [], expanded, includes);
+      const policy = policyOf(includes.map(span => span.name));
+      return compileExpanded(text, source, includes, compileOptions, policy);
+    }) as Registry['compile'],
+  };
+  return Object.freeze(reg);
+}
@@ -0,0 +1,284 @@
+/**
+ * Parameterised SQL output for loomstr templates.
+ * A template renders to statement text with a placeholder where each slot is, plus the slot
+ * values to bind, so values never become part of the SQL text.
+ */
+
+import type {
+  Delimiters,
+  ExactParamsFor,
+  FilterTypeMap,
+  SlotDescriptor,
+  SlotKeys,
+  SqlDialect,
+  SqlOptions,
+  SqlPlaceholder,
+  SqlQuery,
+  Template,
+  TemplateNode,
+  TemplatePolicy,
+} from './types';
+import { MISSING, isTruthy, lookupSlot, slotValue } from './template';
+import { isSecret, secretError } from './redact';
+import { mergePolicy, resolvePolicy } from './filters';
+import { SafeString } from './escape';
+
+/**
+ * A slot value to write as quoted identifiers (table or column names) instead of binding it.
+ * The `ident` filter marks slot values as identifiers; a list becomes a comma-separated list
+ * of identifiers, and dotted names are quoted part by part (`public.users`).
+ */
+export class SqlIdentifier {
+  /** The identifier names */
+  readonly names: readonly string[];
+
+  /**
+   * @param value - A name, or a list of names
+   */
+  constructor(value: unknown) {
+    this.names = (Array.isArray(value) ? value : [value]).map(name => String(name));
+  }
+
+  toString(): string {
+    return this.names.join(', ');
+  }
+}
+
+/** Section-local bindings ({#each} aliases and loop variables) */
+type Locals = Record<string, unknown>;
+
+/** Placeholder style of each dialect */
+const PLACEHOLDERS: Record<SqlDialect, SqlPlaceholder> = {
+  postgres: 'numbered',
+  mysql: 'question',
+  sqlite: 'question',
+  oracle: 'named',
+};
+
+/** Identifier quote character of each dialect */
+const QUOTES: Record<SqlDialect, string> = {
+  postgres: '"',
+  mysql: '`',
+  sqlite: '"',
+  oracle: '"',
+};
+
+/**
+ * Quote a (possibly dotted) identifier, doubling quote characters inside it.
+ * The error for an invalid name of a secret slot does not repeat the name.
+ */
+function quoteIdentifier(
+  name: string,
+  quote: string,
+  slot: SlotDescriptor,
+  secret: boolean
+): string {
+  return name
+    .split('.')
+    .map(part => {
+      if (!part || part.includes('\u0000')) {
+        if (secret) throw secretError(slot);
+        throw new Error(`sql: invalid identifier "${name}" for slot "${slot.name}"`);
+      }
+      return quote + part.split(quote).join(quote + quote) + quote;
+    })
+    .join('.');
+}
+
+/**
+ * Where SQL text is: `code`, or the opening of the string literal, quoted identifier or
+ * comment it is inside: `'`, `E'` (Postgres, with backslash escapes), `"`, a backtick,
+ * `--` (and MySQL's `#`), `/*` or a Postgres dollar quote (`$$`, `$tag$`).
+ */
+type SqlContext = string;
+
+/** A character that continues a name, so a following `'` or `$` is not a prefix or tag */
+const NAME_CHAR = /[\w$]/;
+
+/** A Postgres dollar quote opening or closing at the regex's lastIndex */
+const DOLLAR_QUOTE = /\$(?:[A-Za-z_]\w*)?\$/y;
+
+/**
+ * The context SQL text ends in, given the one it starts in. A doubled quote stays in its
+ * literal or identifier; a backslash escapes the next character in MySQL strings and
+ * Postgres E'' strings. Nested block comments (Postgres) and other dialect-specific quoting,
+ * such as Oracle's q'[…]', are not recognised.
+ */
+function scanSql(text: string, context: SqlContext, dialect: SqlDialect): SqlContext {
+  const postgres = dialect === 'postgres';
+  const mysql = dialect === 'mysql';
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]!;
+    if (context === 'code') {
+      if (c === "'") {
+        const prefixed = postgres && /[eE]/.test(text[i - 1] ?? '');
+        context = prefixed && !NAME_CHAR.test(text[i - 2] ?? '') ? "E'" : "'";
+      } else if (c === '"' || (c === '`' && (mysql || dialect === 'sqlite'))) {
+        context = c;
+      } else if ((c === '-' && text[i + 1] === '-') || (c === '#' && mysql)) {
+        context = '--';
+      } else if (c === '/' && text[i + 1] === '*') {
+        context = '/*';
+        i++;
+      } else if (c === '$' && postgres && !NAME_CHAR.test(text[i - 1] ?? '')) {
+        // a dollar sign inside a name (`a$b$`) opens nothing
+        DOLLAR_QUOTE.lastIndex = i;
+        const tag = DOLLAR_QUOTE.exec(text)?.[0];
+        if (tag) {
+          context = tag;
+          i += tag.length - 1;
+        }
+      }
+    } else if (context === '--') {
+      if (c === '\n') context = 'code';
+    } else if (context === '/*') {
+      if (c === '*' && text[i + 1] === '/') {
+        context = 'code';
+        i++;
+      }
+    } else if (context[0] === '$') {
+      if (text.startsWith(context, i)) {
+        i += context.length - 1;
+        context = 'code';
+      }
+    } else if (c === '\\' && (context === "E'" || (mysql && context !== '`'))) {
+      i++;
+    } else if (c === context[context.length - 1]) {
+      if (text[i + 1] === c) i++;
+      else context = 'code';
+    }
+  }
+  return context;
+}
+
+/** Why a slot cannot be bound where a context is, and what to do instead */
+function placement(context: SqlContext, dialect: SqlDialect): string {
+  if (context === '--' || context === '/*') return 'a comment; move it out of the comment';
+  if (context === '`' || (context === '"' && dialect !== 'mysql')) {
+    return 'a quoted identifier; use the ident filter instead of quotes';
+  }
+  return 'a string literal; remove the quotes to bind it';
+}
+
+/**
+ * Render a template into a parameterised SQL statement.
+ * Every slot becomes a placeholder in the text and its value (after transform and filters)
+ * is bound: an array expands to a comma-separated list of placeholders, for `IN ({ids})`.
+ * Values marked by the `ident` filter are written as quoted identifiers, and SafeString
+ * values (the `raw` filter) as they are; neither is ever bound. Sections render as usual,
+ * and an optional slot without a value or fallback (`{note?}`) binds null.
+ * A slot inside a quoted string literal (`name = '{name}'`) would become part of the literal
+ * instead of a bound value, so it is refused unless it is a SafeString; so are slots inside
+ * quoted identifiers and comments. Dollar-quoted and E'' strings (Postgres) and backslash
+ * escapes (MySQL) are recognised.
+ *
+ * @param t - The statement template
+ * @param params - Object containing values for template slots
+ * @param policy - Optional policy for transforms and custom filters
+ * @param options - Dialect and placeholder style (default postgres: `$1`, `$2`, …)
+ * @returns The statement text and the values to bind
+ * @throws Error if a slot is missing, a filter fails, a list is empty, an identifier is
+ * invalid or a slot is inside a string literal, quoted identifier or comment
+ *
+ * @example
+ * ```typescript
+ * const q = loom.compile("SELECT * FROM {table|ident} WHERE id IN ({ids}) AND name = {name}");
+ * sql(q, { table: "users", ids: [1, 2], name: "Ada" });
+ * // { text: 'SELECT * FROM "users" WHERE id IN ($1, $2) AND name = $3', values: [1, 2, "Ada"] }
+ * ```
+ */
+export function sql<
+  S extends string,
+  D extends Delimiters,
+  P extends Record<SlotKeys<S, D>, unknown>,
+  FT extends FilterTypeMap,
+>(
+  t: Template<S, D, FT>,
+  params: ExactParamsFor<S, P, D, FT>,
+  policy?: TemplatePolicy,
+  options?: SqlOptions
+): SqlQuery {
+  const dialect = options?.dialect ?? 'postgres';
+  const style = options?.placeholder ?? PLACEHOLDERS[dialect];
+  const quote = QUOTES[dialect];
+  const rp = resolvePolicy(mergePolicy(t.policy, policy));
+
+  const values: unknown[] = [];
+  const named: Record<string, unknown> = {};
+  const bindValue = (slot: SlotDescriptor, value: unknown): string => {
+    values.push(value);
+    if (style === 'question') return '?';
+    if (style === 'numbered') return `$${values.length}`;
+    // named after the slot; repeats (loops, list elements) get a numeric suffix
+    const base = slot.name.replace(/\W/g, '_');
+    let name = base;
+    for (let n = 2; Object.prototype.hasOwnProperty.call(named, name); n++) name = `${base}_${n}`;
+    named[name] = value;
+    return `:${name}`;
+  };
+
+  let text = '';
+  let context: SqlContext = 'code';
+  const write = (chunk: string) => {
+    text += chunk;
+    context = scanSql(chunk, context, dialect);
+  };
+  const writeSlot = (slot: SlotDescriptor, value: unknown) => {
+    if (value instanceof SafeString) {
+      write(value.value);
+    } else if (context !== 'code') {
+      throw new Error(`sql: slot "${slot.name}" is inside ${placement(context, dialect)}`);
+    } else if (value instanceof SqlIdentifier) {
+      const secret = isSecret(slot, rp);
+      text += value.names.map(name => quoteIdentifier(name, quote, slot, secret)).join(', ');
+    } else if (Array.isArray(value)) {
+      if (value.length === 0) {
+        throw new Error(`sql: empty list for slot "${slot.name}" cannot be expanded`);
+      }
+      text += value.map(item => bindValue(slot, item)).join(', ');
+    } else {
+      text += bindValue(slot, value);
+    }
+  };
+
+  // walks the nodes like render, to see which optional slots have no value
+  const record = params as Record<string, unknown>;
+  const evaluate = (slot: SlotDescriptor, locals?: Locals) =>
+    slotValue(slot, lookupSlot(record, slot, locals), rp);
+  const walk = (nodes: readonly TemplateNode[], locals?: Locals): void => {
+    for (const node of nodes) {
+      if (node.kind === 'text') {
+        write(node.value);
+      } else if (node.kind === 'slot') {
+        const slot = node.slot;
+        const found = lookupSlot(record, slot, locals);
+        // an optional slot without a value or fallback binds NULL, where render writes ''
+        const absent = found === MISSING || found === null || found === undefined;
+        const none = absent && slot.optional && slot.fallback === undefined;
+        writeSlot(slot, none ? null : slotValue(slot, found, rp));
+      } else if (node.kind === 'if') {
+        const holds = isTruthy(evaluate(node.condition, locals)) !== node.negate;
+        walk(holds ? node.body : node.elseBody, locals);
+      } else {
+        const found = evaluate(node.collection, locals);
+        const items = found === '' && node.collection.optional ? [] : found;
+        if (!Array.isArray(items)) {
+          throw new Error(`Expected an array for {#each ${node.collection.name}}`);
+        }
+        if (items.length === 0) walk(node.elseBody, locals);
+        for (let k = 0; k < items.length; k++) {
+          const scope: Locals = {
+            ...locals,
+            [node.alias]: items[k],
+            '@index': k,
+            '@first': k === 0,
+            '@last': k === items.length - 1,
+          };
+          walk(node.body, scope);
+        }
+      }
+    }
+  };
+  walk(t.nodes);
+  return style === 'named' ? { text, values, named } : { text, values };
+}
@@ -0,0 +1,350 @@
+/**
+ * Streaming output for loomstr templates.
+ * Renders a template piece by piece in document order, so output can be written while later
+ * slots are still resolving, and loops and joined lists never have to be held in memory as
+ * one string.
+ */
+
+import type {
+  AsyncParamsFor,
+  Delimiters,
+  FilterTypeMap,
+  NodeWritableLike,
+  ResolvedPolicy,
+  SlotDescriptor,
+  SlotKeys,
+  StreamOptions,
+  Template,
+  TemplateNode,
+  TemplatePolicy,
+  WritableStreamLike,
+} from './types';
+import { type Stringify, stringifier } from './escape';
+import {
+  applyFilter,
+  builtinFilters,
+  checkFilterArgs,
+  defaultAsString,
+  isTypedFilter,
+  mergePolicy,
+  resolvePolicy,
+} from './filters';
+import { isSecret } from './redact';
+import {
+  MISSING,
+  type SlotStep,
+  bindSteps,
+  filterChain,
+  isThenable,
+  isTruthy,
+  lookupSlotAsync,
+  slotValue,
+} from './template';
+
+/** Section-local bindings ({#each} aliases and loop variables) */
+type Locals = Record<string, unknown>;
+
+/** Output collected since the last chunk was emitted */
+interface Output {
+  buffer: string;
+  readonly chunkSize: number;
+  /** Converts slot values to output text (escaping them if the policy does) */
+  readonly str: Stringify;
+  /** Transform and filter steps bound for the render's policy, by slot */
+  readonly steps: Map<SlotDescriptor, SlotStep[]>;
+}
+
+/** Marks a lookup that met a promise and has to continue asynchronously */
+const PENDING: unique symbol = Symbol('loomstr.pending');
+
+/** Look up a slot like lookupSlot, stopping at the first promise on the path */
+function lookupNow(
+  record: Record<string, unknown>,
+  slot: SlotDescriptor,
+  locals?: Locals
+): unknown {
+  let current: unknown = slot.local ? locals : record;
+  for (const segment of slot.path ?? [slot.name]) {
+    if (isThenable(current)) return PENDING;
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(current, segment)
+    ) {
+      return MISSING;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return isThenable(current) ? PENDING : current;
+}
+
+/** Whether a slot's output is streamed element by element (see slotOutput) */
+function streamsJoin(slot: SlotDescriptor, rp: ResolvedPolicy): boolean {
+  const chain = filterChain(slot) ?? [];
+  const last = chain[chain.length - 1];
+  return (
+    last !== undefined &&
+    rp.filters[last.name] === builtinFilters.join &&
+    rp.asString === defaultAsString &&
+    rp.escape !== 'html' &&
+    !isSecret(slot, rp)
+  );
+}
+
+/**
+ * Evaluate a slot synchronously while no promise is met (see slotValue), leaving out the
+ * final join when its elements are streamed.
+ *
+ * @returns The processed value, or a promise of it when a param, the transform or a filter
+ * gave a promise
+ */
+function evaluateSlot(
+  slot: SlotDescriptor,
+  record: Record<string, unknown>,
+  rp: ResolvedPolicy,
+  out: Output,
+  locals?: Locals,
+  streamed = false
+): unknown {
+  let steps = out.steps.get(slot);
+  if (!steps) {
+    const chain = filterChain(slot) ?? [];
+    steps = bindSteps(slot, rp, streamed ? chain.slice(0, -1) : chain);
+    out.steps.set(slot, steps);
+  }
+  const evaluate = (found: unknown) => slotValue(slot, found, rp, true, steps);
+  const found = lookupNow(record, slot, locals);
+  return found === PENDING ? lookupSlotAsync(record, slot, locals).then(evaluate) : evaluate(found);
+}
+
+/** Emit the collected output as a chunk */
+function* flush(out: Output): Generator<string> {
+  if (out.buffer) {
+    const chunk = out.buffer;
+    out.buffer = '';
+    yield chunk;
+  }
+}
+
+/**
+ * Evaluate a slot, emitting the collected output first when the value has to be awaited.
+ * A slot ending in the built-in `join` streams its elements instead of joining them, when
+ * values are converted with the default asString and not escaped (so the output is the same).
+ */
+async function* slotOutput(
+  slot: SlotDescriptor,
+  record: Record<string, unknown>,
+  rp: ResolvedPolicy,
+  out: Output,
+  locals?: Locals
+): AsyncGenerator<string> {
+  const chain = filterChain(slot) ?? [];
+  const last = chain[chain.length - 1];
+  const join = last && rp.filters[last.name];
+  const streamed = streamsJoin(slot, rp);
+
+  let value = evaluateSlot(slot, record, rp, out, locals, streamed);
+  if (isThenable(value)) {
+    yield* flush(out);
+    value = await value;
+  }
+  if (!streamed || !Array.isArray(value) || !isTypedFilter(join)) {
+    // a value join rejects still fails as join fails
+    out.buffer += out.str(slot, streamed ? applyFilter(join!, last!, value) : value);
+    return;
+  }
+
+  const checked = checkFilterArgs(last!, join.argTypes);
+  if (!checked.ok) throw new Error(checked.reason);
+  const separator = (checked.values[0] as string | undefined) ?? '';
+  for (let i = 0; i < value.length; i++) {
+    out.buffer += i === 0 ? String(value[i]) : separator + String(value[i]);
+    if (out.buffer.length >= out.chunkSize) yield* flush(out);
+  }
+}
+
+/** Render a node list into the output, emitting chunks as they fill up */
+async function* walk(
+  nodes: readonly TemplateNode[],
+  record: Record<string, unknown>,
+  rp: ResolvedPolicy,
+  out: Output,
+  locals?: Locals
+): AsyncGenerator<string> {
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        out.buffer += node.value;
+        break;
+      case 'slot':
+        yield* slotOutput(node.slot, record, rp, out, locals);
+        break;
+      case 'if': {
+        let condition = evaluateSlot(node.condition, record, rp, out, locals);
+        if (isThenable(condition)) {
+          yield* flush(out);
+          condition = await condition;
+        }
+        const branch = isTruthy(condition) !== node.negate ? node.body : node.elseBody;
+        yield* walk(branch, record, rp, out, locals);
+        break;
+      }
+      case 'each': {
+        let found = evaluateSlot(node.collection, record, rp, out, locals);
+        if (isThenable(found)) {
+          yield* flush(out);
+          found = await found;
+        }
+        // an absent optional collection ({#each items? as item}) has no items
+        const items = found === '' && node.collection.optional ? [] : found;
+        if (!Array.isArray(items)) {
+          throw new Error(`Expected an array for {#each ${node.collection.name}}`);
+        }
+        if (items.length === 0) {
+          yield* walk(node.elseBody, record, rp, out, locals);
+          break;
+        }
+        for (let k = 0; k < items.length; k++) {
+          const scope: Locals = {
+            ...locals,
+            [node.alias]: items[k],
+            '@index': k,
+            '@first': k === 0,
+            '@last': k === items.length - 1,
+          };
+          yield* walk(node.body, record, rp, out, scope);
+        }
+        break;
+      }
+    }
+    if (out.buffer.length >= out.chunkSize) yield* flush(out);
+  }
+}
+
+/**
+ * Render a template as a stream of string chunks.
+ * Slots are evaluated in document order as the stream is read, so a slow consumer slows
+ * rendering down instead of output piling up. Params may be promises (as for renderAsync);
+ * output collected so far is emitted before each wait, then rendering resumes when the
+ * value resolves. Loops and lists joined by the built-in `join` are emitted chunk by chunk.
+ * The chunks concatenate to what render would return; errors are the ones it throws.
+ *
+ * @param t - The template to render
+ * @param params - Object containing values (or promises of them) for template slots
+ * @param policy - Optional policy for transforms and custom (possibly async) filters
+ * @param options - Optional chunk size
+ * @returns Async iterable of output chunks
+ *
+ * @example
+ * ```typescript
+ * const page = loom.compile("{#each rows as row}<li>{row.name}</li>{/each}");
+ * for await (const chunk of renderStream(page, { rows: fetchRows() })) res.write(chunk);
+ * ```
+ */
+export async function* renderStream<
+  S extends string,
+  D extends Delimiters,
+  P extends Record<SlotKeys<S, D>, unknown>,
+  FT extends FilterTypeMap,
+>(
+  t: Template<S, D, FT>,
+  params: AsyncParamsFor<S, P, D, FT>,
+  policy?: TemplatePolicy,
+  options?: StreamOptions
+): AsyncGenerator<string, void, undefined> {
+  const rp = resolvePolicy(mergePolicy(t.policy, policy));
+  const out: Output = {
+    buffer: '',
+    chunkSize: options?.chunkSize ?? 16384,
+    str: stringifier(t.nodes, rp),
+    steps: new Map(),
+  };
+  yield* walk(t.nodes, params as Record<string, unknown>, rp, out);
+  yield* flush(out);
+}
+
+/** Wait for a Node.js writable to drain, failing if it errors or closes first */
+function drained(destination: NodeWritableLike): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const settle = (error?: unknown) => {
+      destination.removeListener('drain', onDrain);
+      destination.removeListener('error', onError);
+      destination.removeListener('close', onClose);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onDrain = () => settle();
+    const onError = (error: unknown) => settle(error);
+    const onClose = () => settle(new Error('pipeTo: destination closed before rendering finished'));
+    destination.once('drain', onDrain);
+    destination.once('error', onError);
+    destination.once('close', onClose);
+  });
+}
+
+/**
+ * Render a template into a Node.js stream.Writable or a WHATWG WritableStream of strings.
+ * Writing respects back-pressure: rendering pauses while the destination is full (until
+ * 'drain', or until the writer is ready). The destination is ended (closed) when the template
+ * is rendered unless `end: false`; if rendering fails it is destroyed (aborted) with the error.
+ * For a byte stream, write through a TextEncoderStream.
+ *
+ * @param t - The template to render
+ * @param params - Object containing values (or promises of them) for template slots
+ * @param destination - Node.js writable or WHATWG writable stream
+ * @param policy - Optional policy for transforms and custom (possibly async) filters
+ * @param options - Optional chunk size and whether to end the destination
+ * @returns Promise settled once everything is written (and the destination finished)
+ *
+ * @example
+ * ```typescript
+ * await pipeTo(report, { rows: db.rows() }, fs.createWriteStream('report.html'));
+ * ```
+ */
+export async function pipeTo<
+  S extends string,
+  D extends Delimiters,
+  P extends Record<SlotKeys<S, D>, unknown>,
+  FT extends FilterTypeMap,
+>(
+  t: Template<S, D, FT>,
+  params: AsyncParamsFor<S, P, D, FT>,
+  destination: NodeWritableLike | WritableStreamLike,
+  policy?: TemplatePolicy,
+  options?: StreamOptions
+): Promise<void> {
+  const chunks = renderStream(t, params, policy, options);
+  const end = options?.end ?? true;
+
+  if ('getWriter' in destination) {
+    const writer = destination.getWriter();
+    try {
+      for await (const chunk of chunks) {
+        await writer.ready;
+        void writer.write(chunk).catch(() => {}); // failures surface through ready and close
+      }
+      await writer.ready;
+      if (end) await writer.close();
+    } catch (error) {
+      if (end) await writer.abort(error).catch(() => {});
+      throw error;
+    } finally {
+      writer.releaseLock();
+    }
+    return;
+  }
+
+  try {
+    for await (const chunk of chunks) {
+      if (!destination.write(chunk)) await drained(destination);
+    }
+  } catch (error) {
+    if (end) destination.destroy?.(error as Error);
+    throw error;
+  }
+  if (end) {
+    await new Promise<void>((resolve, reject) =>
+      destination.end(error => (error ? reject(error) : resolve()))
+    );
+  }
+}
@@ -5,6 +5,10 @@
 
 import type {
   Template,
+  CheckTemplate,
+  CompileOptions,
+  Delimiters,
+  DefaultDelimiters,
   SlotKeys,
   ExactParamsFor,
   TemplatePolicy,
@@ -13,37 +17,390 @@ import type {
   ResolvedPolicy,
   SlotDescriptor,
   FilterDescriptor,
+  TemplateNode,
+  FilterTypeMap,
+  NoFilterTypes,
+  FilterFn,
+  RenderFunction,
+  AsyncParamsFor,
 } from './types';
 import { TEMPLATE_BRAND } from './types';
-import { resolvePolicy } from './filters';
-import { parseTemplate } from './parser';
+import { applyFilter, bindFilter, mergePolicy, resolvePolicy } from './filters';
+import { DEFAULT_DELIMITERS, parseTemplate } from './parser';
+import { type CompiledRenderer, compileRenderer } from './codegen';
+import { stringifier } from './escape';
+import { isSecret, secretError, trackAliases } from './redact';
+
+/** Sentinel returned by lookupSlot when a slot's path is absent from params */
+export const MISSING: unique symbol = Symbol('loomstr.missing');
+
+/** Section-local bindings ({#each} aliases and loop variables) */
+type Locals = Record<string, unknown>;
+
+/**
+ * Look up a slot's value in a params record, following dotted paths segment by segment.
+ * Only own properties count; an absent or null/non-object intermediate yields MISSING.
+ * Local slots start from the section locals instead of the params.
+ *
+ * @param record - Params object passed to render
+ * @param slot - The slot to look up
+ * @param locals - Bindings of the enclosing {#each} sections
+ * @returns The value, or MISSING when any segment is absent
+ * @internal
+ */
+export function lookupSlot(
+  record: Record<string, unknown>,
+  slot: SlotDescriptor,
+  locals?: Locals
+): unknown | typeof MISSING {
+  const path = slot.path ?? [slot.name];
+  let current: unknown = slot.local ? locals : record;
+  for (const segment of path) {
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(current, segment)
+    ) {
+      return MISSING;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * True for promises and other thenables.
+ * @internal
+ */
+export const isThenable = (v: unknown): v is PromiseLike<unknown> =>
+  v !== null &&
+  (typeof v === 'object' || typeof v === 'function') &&
+  typeof (v as PromiseLike<unknown>).then === 'function';
+
+/**
+ * Look up a slot's value like lookupSlot, awaiting promises met along the path
+ * (a promised object is awaited before its field is read) and the value itself.
+ *
+ * @param record - Params object passed to renderAsync
+ * @param slot - The slot to look up
+ * @param locals - Bindings of the enclosing {#each} sections
+ * @returns The settled value, or MISSING when any segment is absent
+ * @internal
+ */
+export async function lookupSlotAsync(
+  record: Record<string, unknown>,
+  slot: SlotDescriptor,
+  locals?: Locals
+): Promise<unknown> {
+  const path = slot.path ?? [slot.name];
+  let current: unknown = slot.local ? locals : record;
+  for (const segment of path) {
+    if (isThenable(current)) current = await current;
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(current, segment)
+    ) {
+      return MISSING;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return isThenable(current) ? await current : current;
+}
+
+/**
+ * Await promises together. Once all have settled, rejects with the first rejection in
+ * array order, so concurrent evaluation reports the error a sequential one would.
+ * @internal
+ */
+async function settleInOrder<T>(promises: readonly Promise<T>[]): Promise<T[]> {
+  const results = await Promise.allSettled(promises);
+  return results.map(result => {
+    if (result.status === 'rejected') throw result.reason;
+    return result.value;
+  });
+}
+
+/** Output of an async walk in document order: static text, or a slot with its value */
+type Piece = string | { readonly slot: SlotDescriptor; readonly value: unknown };
+
+/**
+ * Section condition truthiness: JavaScript truthiness, except that empty arrays are false.
+ * @internal
+ */
+export const isTruthy = (v: unknown): boolean => (Array.isArray(v) ? v.length > 0 : Boolean(v));
+
+/**
+ * A slot's filter chain, falling back to the legacy single filter fields.
+ * @internal
+ */
+export const filterChain = (slot: SlotDescriptor): readonly FilterDescriptor[] | undefined =>
+  slot.filters ??
+  (slot.filter
+    ? ([{ name: slot.filter, args: slot.args }] as readonly FilterDescriptor[])
+    : undefined);
+
+/**
+ * A transform or filter step bound to a slot and policy (see bindSteps).
+ * @internal
+ */
+export type SlotStep = (value: unknown) => unknown;
+
+/**
+ * Bind a slot's transform and filters to a policy, looking filters up and converting their
+ * typed arguments once. An unknown filter or bad typed argument becomes a step that throws,
+ * so the error still surfaces at render time.
+ *
+ * @param slot - The slot whose steps to bind
+ * @param rp - Resolved policy with transforms and filters
+ * @param chain - Filters to bind, by default the slot's whole chain
+ * @returns The steps in order: the transform, if any, then the filters
+ * @internal
+ */
+export function bindSteps(
+  slot: SlotDescriptor,
+  rp: ResolvedPolicy,
+  chain: readonly FilterDescriptor[] = filterChain(slot) ?? []
+): SlotStep[] {
+  const steps = chain.map((segment): SlotStep => {
+    const fn = rp.filters[segment.name];
+    if (fn) return bindFilter(fn, segment);
+    const message = `Unknown filter "${segment.name}"`;
+    return () => {
+      throw new Error(message);
+    };
+  });
+  const transform = rp.transform;
+  if (transform) steps.unshift(value => transform(slot, value));
+  return steps;
+}
+
+/** Apply steps from..., bound or looked up in the policy as they are reached */
+function applySteps(
+  slot: SlotDescriptor,
+  value: unknown,
+  rp: ResolvedPolicy,
+  settle: boolean,
+  steps: readonly SlotStep[] | undefined,
+  from: number
+): unknown {
+  const chain = steps ? undefined : (filterChain(slot) ?? []);
+  const offset = !steps && rp.transform ? 1 : 0;
+  const count = steps ? steps.length : offset + chain!.length;
+  let current = value;
+  for (let i = from; i < count; i++) {
+    if (settle && isThenable(current)) {
+      return Promise.resolve(current).then(v => applySteps(slot, v, rp, settle, steps, i));
+    }
+    if (steps) {
+      current = steps[i]!(current);
+    } else if (i < offset) {
+      current = rp.transform!(slot, current);
+    } else {
+      const segment = chain![i - offset]!;
+      const filterFn = rp.filters[segment.name];
+      if (!filterFn) throw new Error(`Unknown filter "${segment.name}"`);
+      current = applyFilter(filterFn, segment, current);
+    }
+  }
+  return settle && isThenable(current) ? Promise.resolve(current) : current;
+}
+
+/**
+ * Evaluate a slot from its looked-up value: the default of an optional slot, the check for
+ * a missing value, then the transform and filters. Every render path (interpreter, async,
+ * streams and compiled render functions) evaluates slots through it. What a secret slot's
+ * transform or filters throw, or reject with, is replaced by secretError.
+ *
+ * @param slot - The slot to evaluate
+ * @param found - The slot's value, MISSING when absent from the params
+ * @param rp - Resolved policy with transforms and filters
+ * @param settle - Wait for a promise a step gives before the next step, giving a promise of
+ * the value (async renders and streams); otherwise a promise is a value like any other
+ * @param steps - Steps bound once (see bindSteps); looked up in the policy when absent
+ * @returns The processed value; '' for an optional slot without value or default
+ * @throws Error if the slot is missing, a filter is unknown or a step fails
+ * @internal
+ */
+export function slotValue(
+  slot: SlotDescriptor,
+  found: unknown,
+  rp: ResolvedPolicy,
+  settle = false,
+  steps?: readonly SlotStep[]
+): unknown {
+  let raw = found;
+  if (slot.optional && (raw === MISSING || raw === null || raw === undefined)) {
+    if (slot.fallback === undefined) return '';
+    raw = slot.fallback;
+  }
+  if (raw === MISSING) {
+    throw new Error(`Missing value for slot "${slot.name}"`);
+  }
+  if (steps ? steps.length === 0 : !rp.transform && !filterChain(slot)?.length) return raw;
+  try {
+    const value = applySteps(slot, raw, rp, settle, steps, 0);
+    if (!(value instanceof Promise) || !isSecret(slot, rp)) return value;
+    return value.catch(() => {
+      throw secretError(slot);
+    });
+  } catch (error) {
+    // what a secret slot's transform or filters throw may hold the value
+    throw isSecret(slot, rp) ? secretError(slot) : error;
+  }
+}
 
 /**
  * A compiled template that can be rendered with data.
  * Provides efficient rendering by pre-parsing template structure and caching parsed components.
  *
  * @template S - The literal template string type
+ * @template D - The slot delimiters the source was compiled with
+ * @template FT - Value types of the custom filters the template is rendered with
  */
-export class CompiledTemplate<S extends string> implements Template<S> {
+export class CompiledTemplate<
+  S extends string,
+  D extends Delimiters = DefaultDelimiters,
+  FT extends FilterTypeMap = NoFilterTypes,
+> implements Template<S, D, FT>
+{
   /** @internal Unique brand to identify template instances */
   readonly [TEMPLATE_BRAND] = true as const;
 
+  /** True when the template has no sections, so chunks/slots alone describe the output */
+  private readonly flat: boolean;
+
+  /** Render functions built for codegen, by the policy object passed to render */
+  private renderers?: WeakMap<object, CompiledRenderer>;
+
+  /** Policies render has seen once; a render function is built when one comes back */
+  private seenPolicies?: WeakSet<object>;
+
   /**
    * Create a new compiled template.
    *
    * @param source - The original template string
    * @param chunks - Pre-parsed static text chunks
    * @param slots - Pre-parsed slot descriptors
+   * @param nodes - Pre-parsed node tree
+   * @param delimiters - Slot delimiters the source was parsed with
+   * @param policy - Default policy, merged under the policy passed to each call
+   * @param codegen - Render through functions specialised for each policy (see CompileOptions)
    * @internal
    */
   constructor(
     public readonly source: S,
     public readonly chunks: readonly string[],
-    public readonly slots: readonly SlotDescriptor[]
-  ) {}
+    public readonly slots: readonly SlotDescriptor[],
+    public readonly nodes: readonly TemplateNode[],
+    public readonly delimiters: D,
+    public readonly policy?: TemplatePolicy,
+    public readonly codegen: CompileOptions['codegen'] = false
+  ) {
+    this.flat = nodes.every(node => node.kind === 'text' || node.kind === 'slot');
+    if (!this.flat) trackAliases(nodes);
+  }
+
+  /**
+   * Evaluate a single slot by looking up its value and applying transform and filters.
+   *
+   * @param slot - The slot to evaluate
+   * @param record - Object containing values for template slots
+   * @param rp - Resolved policy with transforms and filters
+   * @param locals - Bindings of the enclosing {#each} sections
+   * @returns The processed value; '' for an optional slot without value or default
+   * @throws Error if a required slot is missing or a filter fails
+   * @internal
+   */
+  private evaluateSlot(
+    slot: SlotDescriptor,
+    record: Record<string, unknown>,
+    rp: ResolvedPolicy,
+    locals?: Locals
+  ): unknown {
+    return slotValue(slot, lookupSlot(record, slot, locals), rp);
+  }
+
+  /**
+   * Evaluate a single slot like evaluateSlot, awaiting promise params, a promise returned by
+   * the transform and promises returned by filters.
+   *
+   * @param slot - The slot to evaluate
+   * @param record - Object containing values (or promises of them) for template slots
+   * @param rp - Resolved policy with transforms and filters
+   * @param locals - Bindings of the enclosing {#each} sections
+   * @returns Promise of the processed value
+   * @internal
+   */
+  private async evaluateSlotAsync(
+    slot: SlotDescriptor,
+    record: Record<string, unknown>,
+    rp: ResolvedPolicy,
+    locals?: Locals
+  ): Promise<unknown> {
+    return slotValue(slot, await lookupSlotAsync(record, slot, locals), rp, true);
+  }
+
+  /**
+   * Walk a node list like walk, evaluating sibling slots, sections and loop iterations
+   * concurrently.
+   *
+   * @param nodes - Nodes to walk
+   * @param record - Object containing values (or promises of them) for template slots
+   * @param rp - Resolved policy with transforms and filters
+   * @param locals - Bindings of the enclosing {#each} sections
+   * @returns Promise of the output pieces in document order
+   * @throws Error (as a rejection) first in document order among failing slots and sections
+   * @internal
+   */
+  private async walkAsync(
+    nodes: readonly TemplateNode[],
+    record: Record<string, unknown>,
+    rp: ResolvedPolicy,
+    locals?: Locals
+  ): Promise<Piece[]> {
+    const pieces = await settleInOrder(
+      nodes.map(async (node): Promise<Piece[]> => {
+        switch (node.kind) {
+          case 'text':
+            return [node.value];
+          case 'slot': {
+            const value = await this.evaluateSlotAsync(node.slot, record, rp, locals);
+            return [{ slot: node.slot, value }];
+          }
+          case 'if': {
+            const condition = await this.evaluateSlotAsync(node.condition, record, rp, locals);
+            const branch = isTruthy(condition) !== node.negate ? node.body : node.elseBody;
+            return this.walkAsync(branch, record, rp, locals);
+          }
+          case 'each': {
+            const found = await this.evaluateSlotAsync(node.collection, record, rp, locals);
+            const items = found === '' && node.collection.optional ? [] : found;
+            if (!Array.isArray(items)) {
+              throw new Error(`Expected an array for {#each ${node.collection.name}}`);
+            }
+            if (items.length === 0) return this.walkAsync(node.elseBody, record, rp, locals);
+            const bodies = items.map((item, k) => {
+              const scope: Locals = {
+                ...locals,
+                [node.alias]: item,
+                '@index': k,
+                '@first': k === 0,
+                '@last': k === items.length - 1,
+              };
+              return this.walkAsync(node.body, record, rp, scope);
+            });
+            return (await settleInOrder(bodies)).flat();
+          }
+        }
+      })
+    );
+    return pieces.flat();
+  }
 
   /**
    * Evaluate slot values by applying transforms and filters.
+   * Only meaningful for templates without sections.
    *
    * @param record - Object containing values for template slots
    * @param rp - Resolved policy with transforms and filters
@@ -54,29 +411,214 @@ export class CompiledTemplate<S extends string> implements Template<S> {
   private evaluate(record: Record<string, unknown>, rp: ResolvedPolicy): unknown[] {
     const values: unknown[] = [];
     for (const slot of this.slots) {
-      if (!Object.prototype.hasOwnProperty.call(record, slot.name)) {
-        throw new Error(`Missing value for slot "${slot.name}"`);
+      values.push(this.evaluateSlot(slot, record, rp));
+    }
+    return values;
+  }
+
+  /**
+   * Walk a node list in output order, evaluating slots, choosing section branches
+   * and repeating loop bodies.
+   *
+   * @param nodes - Nodes to walk
+   * @param record - Object containing values for template slots
+   * @param rp - Resolved policy with transforms and filters
+   * @param text - Receives static text
+   * @param value - Receives each rendered slot with its processed value
+   * @param locals - Bindings of the enclosing {#each} sections
+   * @throws Error if an {#each} collection is not an array
+   * @internal
+   */
+  private walk(
+    nodes: readonly TemplateNode[],
+    record: Record<string, unknown>,
+    rp: ResolvedPolicy,
+    text: (chunk: string) => void,
+    value: (slot: SlotDescriptor, v: unknown) => void,
+    locals?: Locals
+  ): void {
+    for (const node of nodes) {
+      switch (node.kind) {
+        case 'text':
+          text(node.value);
+          break;
+        case 'slot':
+          value(node.slot, this.evaluateSlot(node.slot, record, rp, locals));
+          break;
+        case 'if': {
+          const holds = isTruthy(this.evaluateSlot(node.condition, record, rp, locals));
+          const branch = holds !== node.negate ? node.body : node.elseBody;
+          this.walk(branch, record, rp, text, value, locals);
+          break;
+        }
+        case 'each': {
+          const found = this.evaluateSlot(node.collection, record, rp, locals);
+          // an absent optional collection ({#each items? as item}) has no items
+          const items = found === '' && node.collection.optional ? [] : found;
+          if (!Array.isArray(items)) {
+            throw new Error(`Expected an array for {#each ${node.collection.name}}`);
+          }
+          if (items.length === 0) {
+            this.walk(node.elseBody, record, rp, text, value, locals);
+            break;
+          }
+          for (let k = 0; k < items.length; k++) {
+            const scope: Locals = {
+              ...locals,
+              [node.alias]: items[k],
+              '@index': k,
+              '@first': k === 0,
+              '@last': k === items.length - 1,
+            };
+            this.walk(node.body, record, rp, text, value, scope);
+          }
+          break;
+        }
       }
-      const raw = record[slot.name];
-      const transformed = rp.transform ? rp.transform(slot, raw) : raw;
-      const chain = slot.filters ?? (slot.filter
-        ? ([{ name: slot.filter, args: slot.args }] as readonly FilterDescriptor[])
-        : undefined);
-
-      if (!chain || chain.length === 0) {
-        values.push(transformed);
+    }
+  }
+
+  /**
+   * Render a params record asynchronously with a resolved policy.
+   * @internal
+   */
+  private async renderAsyncWith(record: Record<string, unknown>, rp: ResolvedPolicy) {
+    const str = stringifier(this.nodes, rp);
+    let out = '';
+    for (const piece of await this.walkAsync(this.nodes, record, rp)) {
+      out += typeof piece === 'string' ? piece : str(piece.slot, piece.value);
+    }
+    return out;
+  }
+
+  /**
+   * Build template parts asynchronously with a resolved policy, as partsWith does.
+   * @internal
+   */
+  private async partsAsyncWith(
+    record: Record<string, unknown>,
+    rp: ResolvedPolicy
+  ): Promise<TemplateParts> {
+    if (this.flat) {
+      const values = await settleInOrder(
+        this.slots.map(slot => this.evaluateSlotAsync(slot, record, rp))
+      );
+      return { chunks: this.chunks.slice(), slots: this.slots.slice(), values };
+    }
+
+    const chunks: string[] = [];
+    const slots: SlotDescriptor[] = [];
+    const values: unknown[] = [];
+    let pending = '';
+    for (const piece of await this.walkAsync(this.nodes, record, rp)) {
+      if (typeof piece === 'string') {
+        pending += piece;
         continue;
       }
+      chunks.push(pending);
+      pending = '';
+      slots.push(piece.slot);
+      values.push(piece.value);
+    }
+    if (pending) chunks.push(pending);
+    return { chunks, slots, values };
+  }
+
+  /**
+   * Get the render function specialised for a policy, building it on first use.
+   * The policy object is the cache key: a policy changed after rendering with it keeps
+   * the filters it had then.
+   *
+   * @param policy - Policy passed to render, merged over the template's default policy
+   * @returns The render function and its generated source, if any
+   * @internal
+   */
+  renderer(policy?: TemplatePolicy): CompiledRenderer {
+    const key = policy ?? this;
+    this.renderers ??= new WeakMap();
+    let compiled = this.renderers.get(key);
+    if (!compiled) {
+      const rp = resolvePolicy(mergePolicy(this.policy, policy));
+      compiled = compileRenderer(this.nodes, rp, this.codegen === 'closures');
+      this.renderers.set(key, compiled);
+    }
+    return compiled;
+  }
 
-      let current = transformed;
-      for (const segment of chain) {
-        const filterFn = rp.filters[segment.name];
-        if (!filterFn) throw new Error(`Unknown filter "${segment.name}"`);
-        current = filterFn(current, ...segment.args);
+  /**
+   * Whether render should use a generated render function for a policy: always without
+   * one, otherwise from the second render with the same policy object. A policy written
+   * inline (`t.render(p, { escape: 'html' })`) is a new object every call, and building a
+   * function for each would cost far more than interpreting.
+   *
+   * @param policy - Policy passed to render
+   * @returns True when the policy's render function exists or is worth building
+   * @internal
+   */
+  private reusesPolicy(policy?: TemplatePolicy): boolean {
+    if (!policy || this.renderers?.has(policy)) return true;
+    this.seenPolicies ??= new WeakSet();
+    if (this.seenPolicies.has(policy)) return true;
+    this.seenPolicies.add(policy);
+    return false;
+  }
+
+  /**
+   * Render a params record with a resolved policy.
+   * @internal
+   */
+  private renderWith(record: Record<string, unknown>, rp: ResolvedPolicy): string {
+    const str = stringifier(this.nodes, rp);
+    if (this.flat) {
+      const values = this.evaluate(record, rp);
+      let out = this.chunks[0] ?? '';
+      for (let i = 0; i < this.slots.length; i++) {
+        out += str(this.slots[i]!, values[i]);
+        out += this.chunks[i + 1] ?? '';
       }
-      values.push(current);
+      return out;
     }
-    return values;
+
+    let out = '';
+    this.walk(
+      this.nodes,
+      record,
+      rp,
+      chunk => (out += chunk),
+      (slot, v) => (out += str(slot, v))
+    );
+    return out;
+  }
+
+  /**
+   * Build template parts for a params record with a resolved policy.
+   * For templates with sections, the parts describe the rendered output.
+   * @internal
+   */
+  private partsWith(record: Record<string, unknown>, rp: ResolvedPolicy): TemplateParts {
+    if (this.flat) {
+      const values = this.evaluate(record, rp);
+      return { chunks: this.chunks.slice(), slots: this.slots.slice(), values };
+    }
+
+    const chunks: string[] = [];
+    const slots: SlotDescriptor[] = [];
+    const values: unknown[] = [];
+    let pending = '';
+    this.walk(
+      this.nodes,
+      record,
+      rp,
+      chunk => (pending += chunk),
+      (slot, v) => {
+        chunks.push(pending);
+        pending = '';
+        slots.push(slot);
+        values.push(v);
+      }
+    );
+    if (pending) chunks.push(pending);
+    return { chunks, slots, values };
   }
 
   /**
@@ -94,13 +636,12 @@ export class CompiledTemplate<S extends string> implements Template<S> {
    * // { chunks: ["Hello ", "!"], slots: [...], values: ["WORLD"] }
    * ```
    */
-  toParts<P extends Record<SlotKeys<S>, unknown>>(
-    params: ExactParamsFor<S, P>,
+  toParts<P extends Record<SlotKeys<S, D>, unknown>>(
+    params: ExactParamsFor<S, P, D, FT>,
     policy?: TemplatePolicy
   ): TemplateParts {
-    const rp = resolvePolicy(policy);
-    const values = this.evaluate(params as Record<string, unknown>, rp);
-    return { chunks: this.chunks.slice(), slots: this.slots.slice(), values };
+    const rp = resolvePolicy(mergePolicy(this.policy, policy));
+    return this.partsWith(params as Record<string, unknown>, rp);
   }
 
   /**
@@ -117,11 +658,14 @@ export class CompiledTemplate<S extends string> implements Template<S> {
    * // { chunks: ["Hello ", "!"], slots: [...], values: ["world"] }
    * ```
    */
-  toPartsRaw<P extends Record<SlotKeys<S>, unknown>>(
-    params: ExactParamsFor<S, P>
+  toPartsRaw<P extends Record<SlotKeys<S, D>, unknown>>(
+    params: ExactParamsFor<S, P, D, FT>
   ): TemplatePartsRaw {
     const record = params as Record<string, unknown>;
-    const values = this.slots.map(s => record[s.name]);
+    const values = this.slots.map(s => {
+      const v = s.local ? MISSING : lookupSlot(record, s);
+      return v === MISSING ? undefined : v;
+    });
     return { chunks: this.chunks.slice(), slots: this.slots.slice(), values };
   }
 
@@ -140,18 +684,54 @@ export class CompiledTemplate<S extends string> implements Template<S> {
    * tmpl.render({ name: "world" }); // "Hello WORLD!"
    * ```
    */
-  render<P extends Record<SlotKeys<S>, unknown>>(
-    params: ExactParamsFor<S, P>,
+  render<P extends Record<SlotKeys<S, D>, unknown>>(
+    params: ExactParamsFor<S, P, D, FT>,
     policy?: TemplatePolicy
   ): string {
-    const rp = resolvePolicy(policy);
-    const values = this.evaluate(params as Record<string, unknown>, rp);
-    let out = this.chunks[0] ?? '';
-    for (let i = 0; i < this.slots.length; i++) {
-      out += rp.asString(values[i]);
-      out += this.chunks[i + 1] ?? '';
+    if (this.codegen && this.reusesPolicy(policy)) {
+      return this.renderer(policy).render(params as Record<string, unknown>);
     }
-    return out;
+    const rp = resolvePolicy(mergePolicy(this.policy, policy));
+    return this.renderWith(params as Record<string, unknown>, rp);
+  }
+
+  /**
+   * Render the template, awaiting promise params and filters that return promises.
+   * Independent slots (and loop iterations) are evaluated concurrently. Errors are the ones
+   * render would throw: when several slots fail, the first in document order is reported.
+   *
+   * @param params - Object containing values (or promises of them) for template slots
+   * @param policy - Optional policy for transforms and custom (possibly async) filters
+   * @returns Promise of the rendered string
+   *
+   * @example
+   * ```typescript
+   * const tmpl = compile("Hello {user.name|upper}!");
+   * await tmpl.renderAsync({ user: fetchUser(id) }); // "Hello ADA!"
+   * ```
+   */
+  renderAsync<P extends Record<SlotKeys<S, D>, unknown>>(
+    params: AsyncParamsFor<S, P, D, FT>,
+    policy?: TemplatePolicy
+  ): Promise<string> {
+    const rp = resolvePolicy(mergePolicy(this.policy, policy));
+    return this.renderAsyncWith(params as Record<string, unknown>, rp);
+  }
+
+  /**
+   * Convert the template to parts with processed values, awaiting promise params and
+   * filters that return promises (see renderAsync).
+   *
+   * @param params - Object containing values (or promises of them) for template slots
+   * @param policy - Optional policy for transforms and custom (possibly async) filters
+   * @returns Promise of the template parts with chunks, slots, and processed values
+   */
+  toPartsAsync<P extends Record<SlotKeys<S, D>, unknown>>(
+    params: AsyncParamsFor<S, P, D, FT>,
+    policy?: TemplatePolicy
+  ): Promise<TemplateParts> {
+    const rp = resolvePolicy(mergePolicy(this.policy, policy));
+    return this.partsAsyncWith(params as Record<string, unknown>, rp);
   }
 }
 
@@ -160,26 +740,127 @@ export class CompiledTemplate<S extends string> implements Template<S> {
  * Parses the template structure once for efficient repeated rendering.
  *
  * @param source - Template string with {slot} patterns
+ * @param options - Optional compile options (custom delimiters, filters to check arguments against,
+ * secret slots)
  * @returns Compiled template ready for rendering
+ * @throws LoomParseError if the source is malformed or a typed or case filter gets bad arguments
  *
  * @example
  * ```typescript
  * const tmpl = compile("Hello {name|upper}!");
  * tmpl.render({ name: "world" }); // "Hello WORLD!"
+ *
+ * const css = compile(".btn { color: {{color}} }", { delimiters: ["{{", "}}"] });
+ * css.render({ color: "red" }); // ".btn { color: red }"
+ * ```
+ */
+export function compile<
+  S extends string,
+  const D extends Delimiters = DefaultDelimiters,
+  F extends string = never,
+>(source: S & CheckTemplate<S, F, D>, options?: CompileOptions<D, F>): Template<S, D> {
+  const delimiters = (options?.delimiters ?? DEFAULT_DELIMITERS) as D;
+  const filters = options?.filters;
+  const { chunks, slots, nodes } = parseTemplate(source, { delimiters, filters });
+  const policy = options?.secrets ? { secrets: options.secrets } : undefined;
+  return new CompiledTemplate(source, chunks, slots, nodes, delimiters, policy, options?.codegen);
+}
+
+/**
+ * Wrap a template's render function for a policy as a RenderFunction.
+ * @internal
+ */
+export function renderFunction<S extends string, D extends Delimiters, FT extends FilterTypeMap>(
+  template: CompiledTemplate<S, D, FT>,
+  policy?: TemplatePolicy
+): RenderFunction<S, D, FT> {
+  const { render, code } = template.renderer(policy);
+  const fn = (params: Record<string, unknown>) => render(params);
+  return Object.assign(fn as RenderFunction<S, D, FT>, { template, code });
+}
+
+/**
+ * Compile a template string into a precompiled render function.
+ * The function is generated for the given filters and policy once: slot paths are unrolled,
+ * filters are looked up and their arguments converted up front, and sections become plain
+ * branches and loops. Where `new Function` is not allowed (or with `codegen: 'closures'`),
+ * it is built from closures instead.
+ *
+ * @param source - Template string with {slot} patterns
+ * @param options - Optional compile options; the filters are also the ones rendered with
+ * @param policy - Optional policy for transforms, string conversion and further filters
+ * @returns Render function taking the template params
+ * @throws LoomParseError if the source is malformed or a typed or case filter gets bad arguments
+ *
+ * @example
+ * ```typescript
+ * const line = compileFn("[{level|upper}] {msg}");
+ * line({ level: "info", msg: "ready" }); // "[INFO] ready"
  * ```
  */
-export function compile<S extends string>(source: S): Template<S> {
-  const { chunks, slots } = parseTemplate(source);
-  return new CompiledTemplate(source, chunks, slots);
+export function compileFn<
+  S extends string,
+  const D extends Delimiters = DefaultDelimiters,
+  F extends string = never,
+>(
+  source: S & CheckTemplate<S, F, D>,
+  options?: CompileOptions<D, F>,
+  policy?: TemplatePolicy
+): RenderFunction<S, D> {
+  const codegen = options?.codegen === 'closures' ? 'closures' : true;
+  const template = compile<S, D, F>(source, { ...options, codegen }) as CompiledTemplate<S, D>;
+  const filters = options?.filters as Record<string, FilterFn> | undefined;
+  return renderFunction(template, mergePolicy(filters && { filters }, policy));
+}
+
+/** Policy fields a concatenation takes from either template, but not different ones from both */
+const SINGLE_FIELDS = ['transform', 'asString', 'escape', 'locale', 'timeZone'] as const;
+
+/**
+ * The policy and codegen option of a concatenation: the templates' policies layered (secret
+ * patterns combined), and codegen if either template used it ('closures' if either did).
+ *
+ * @param a - First template
+ * @param b - Second template
+ * @returns The policy and codegen option to compile the concatenation with
+ * @throws Error if the policies set a field or filter to different values
+ * @internal
+ */
+export function concatOptions(
+  a: { readonly policy?: TemplatePolicy },
+  b: { readonly policy?: TemplatePolicy }
+): { policy?: TemplatePolicy; codegen: CompileOptions['codegen'] } {
+  const [x, y] = [a.policy, b.policy];
+  if (x && y && x !== y) {
+    for (const field of SINGLE_FIELDS) {
+      const [u, v] = [x[field], y[field]];
+      // locale lists are compared by their tags
+      const same = u === v || (field === 'locale' && String(u) === String(v));
+      if (u !== undefined && v !== undefined && !same) {
+        throw new Error(`concat: templates have different ${field} policies`);
+      }
+    }
+    for (const [name, fn] of Object.entries(x.filters ?? {})) {
+      if (y.filters?.[name] && y.filters[name] !== fn) {
+        throw new Error(`concat: templates have different "${name}" filters`);
+      }
+    }
+  }
+  const codegens = [a, b].map(t => (t instanceof CompiledTemplate ? t.codegen : false));
+  const codegen = codegens.includes('closures') ? 'closures' : codegens.includes(true);
+  return { policy: x === y ? x : mergePolicy(x, y), codegen };
 }
 
 /**
  * Concatenate two templates into a single template.
- * Combines the source strings and returns a new compiled template.
+ * Combines the source strings and returns a new compiled template, with the delimiters of
+ * both, their policies layered and codegen if either used it (see concatOptions).
  *
  * @param a - First template to concatenate
  * @param b - Second template to concatenate
  * @returns New template representing the concatenation
+ * @throws Error if the templates were compiled with different delimiters or their policies
+ * conflict
  *
  * @example
  * ```typescript
@@ -189,9 +870,21 @@ export function compile<S extends string>(source: S): Template<S> {
  * combined.render({ name: "world" }); // "Hello world!"
  * ```
  */
-export function concat<A extends string, B extends string>(
-  a: Template<A>,
-  b: Template<B>
-): Template<`${A}${B}`> {
-  return compile((a.source + b.source) as `${A}${B}`);
+export function concat<
+  A extends string,
+  B extends string,
+  D extends Delimiters = DefaultDelimiters,
+>(
+  a: Template<A, D>,
+  b: Template<B, D>
+): Template<`${A}${B}`, D> {
+  const [open, close] = a.delimiters;
+  if (b.delimiters[0] !== open || b.delimiters[1] !== close) {
+    throw new Error('concat: templates use different delimiters');
+  }
+  const { policy, codegen } = concatOptions(a, b);
+  const source = `${a.source}${b.source}` as const;
+  const delimiters = a.delimiters;
+  const { chunks, slots, nodes } = parseTemplate(source, { delimiters, filters: policy?.filters });
+  return new CompiledTemplate(source, chunks, slots, nodes, delimiters, policy, codegen);
 }
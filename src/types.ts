@@ -10,30 +10,814 @@ type TrimRight<S extends string> = S extends `${infer R}${WS}` ? TrimRight<R> :
 /** Remove whitespace from both sides of a string type */
 type Trim<S extends string> = TrimLeft<TrimRight<S>>;
 
+/** Letters allowed in identifiers */
+type Letter =
+  | 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j' | 'k' | 'l' | 'm'
+  | 'n' | 'o' | 'p' | 'q' | 'r' | 's' | 't' | 'u' | 'v' | 'w' | 'x' | 'y' | 'z'
+  | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H' | 'I' | 'J' | 'K' | 'L' | 'M'
+  | 'N' | 'O' | 'P' | 'Q' | 'R' | 'S' | 'T' | 'U' | 'V' | 'W' | 'X' | 'Y' | 'Z';
+
+/** Decimal digits */
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+/** First character of a slot, filter or section keyword name (A-Z a-z _) */
+type IdentStart = Letter | '_';
+
+/** Read the leading identifier characters of S: [identifier, rest] */
+type ScanIdent<S extends string, Acc extends string = ''> = S extends `${infer Ch}${infer Rest}`
+  ? Ch extends IdentStart | Digit
+    ? ScanIdent<Rest, `${Acc}${Ch}`>
+    : [Acc, S]
+  : [Acc, S];
+
+/** Read the leading digits of S: [digits, rest] */
+type ScanDigits<S extends string, Acc extends string = ''> = S extends `${infer Ch}${infer Rest}`
+  ? Ch extends Digit
+    ? ScanDigits<Rest, `${Acc}${Ch}`>
+    : [Acc, S]
+  : [Acc, S];
+
+/**
+ * True when S ends in an odd number of backslashes, i.e. its last backslash escapes
+ * whatever follows (backslashes pair up from the left, as in the runtime parser).
+ */
+type EndsEscaped<S extends string, Odd extends boolean = false> = S extends `${infer Head}\\`
+  ? EndsEscaped<Head, Odd extends true ? false : true>
+  : Odd;
+
+/** First character of a delimiter and the rest of it */
+type First<S extends string> = S extends `${infer Ch}${string}` ? Ch : S;
+type DropFirst<S extends string> = S extends `${string}${infer Rest}` ? Rest : S;
+
+/** True when S contains an occurrence of Needle that is not escaped by a backslash */
+type HasUnescaped<
+  S extends string,
+  Needle extends string,
+> = S extends `${infer Head}${Needle}${infer Rest}`
+  ? EndsEscaped<Head> extends true
+    ? HasUnescaped<`${DropFirst<Needle>}${Rest}`, Needle>
+    : true
+  : false;
+
+/** Text after the first unescaped occurrence of Needle in S, or never when there is none */
+type AfterUnescaped<
+  S extends string,
+  Needle extends string,
+> = S extends `${infer Head}${Needle}${infer Rest}`
+  ? EndsEscaped<Head> extends true
+    ? AfterUnescaped<Rest, Needle>
+    : Rest
+  : never;
+
+/**
+ * Mark every segment of an optional slot path with a trailing "?" ("user.name" -> "user?.name?"):
+ * an optional slot renders without the whole path, so none of its objects are required.
+ */
+type MarkOptional<P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? `${Head}?.${MarkOptional<Rest>}`
+  : `${P}?`;
+
+/** Remove the optional markers from a slot path ("user?.name?" -> "user.name") */
+type Unmark<P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? `${UnmarkSegment<Head>}.${Unmark<Rest>}`
+  : UnmarkSegment<P>;
+
+/** Remove the optional marker from a single path segment */
+type UnmarkSegment<Segment extends string> = Segment extends `${infer Name}?` ? Name : Segment;
+
+/**
+ * A slot body parsed at the type level: its name (optional slots have every segment marked,
+ * see MarkOptional) and the names of its filters in order.
+ */
+interface ParsedSlot<Name extends string = string, Filters extends string[] = string[]> {
+  readonly name: Name;
+  readonly filters: Filters;
+}
+
+/**
+ * Parse a slot body the way the runtime parser does (parseSlotBody):
+ * name or dotted path, `?` / `?? default`, then `|filter#args` segments.
+ * Yields a ParsedSlot or the ParseErrorCode the runtime would report.
+ */
+type ParseSlotBody<Body extends string> =
+  ParseSlotName<TrimLeft<Body>> extends infer Scanned
+    ? [Scanned] extends [never]
+      ? 'INVALID_SLOT_NAME'
+      : Scanned extends [infer Name extends string, infer Rest extends string]
+        ? ParseOptional<Name, TrimLeft<Rest>>
+        : never
+    : never;
+
+/** Leading slot name of S: a loop variable or a dotted path ([name, rest]; never if invalid) */
+type ParseSlotName<S extends string> = S extends `@${infer Var}`
+  ? ScanIdent<Var> extends [infer Id extends 'index' | 'first' | 'last', infer Rest]
+    ? [`@${Id}`, Rest]
+    : never
+  : S extends `${IdentStart}${string}`
+    ? ScanPath<ScanIdent<S>>
+    : never;
+
+/** Continue a slot name with ".segment" parts (identifiers or digits) */
+type ScanPath<Scanned> = Scanned extends [infer Name extends string, `.${infer After}`]
+  ? After extends `${Digit}${string}`
+    ? ScanDigits<After> extends [infer Seg extends string, infer Rest]
+      ? ScanPath<[`${Name}.${Seg}`, Rest]>
+      : never
+    : After extends `${IdentStart}${string}`
+      ? ScanIdent<After> extends [infer Seg extends string, infer Rest]
+        ? ScanPath<[`${Name}.${Seg}`, Rest]>
+        : never
+      : never
+  : Scanned;
+
+/** Optional marker or inline default after the slot name */
+type ParseOptional<Name extends string, Rest extends string> = Rest extends `??${infer Default}`
+  ? SkipDefault<TrimLeft<Default>> extends infer After extends string
+    ? After extends ParseErrorCode
+      ? After
+      : ParseFilters<TrimLeft<After>, MarkOptional<Name>, []>
+    : never
+  : Rest extends `?${infer After}`
+    ? ParseFilters<TrimLeft<After>, MarkOptional<Name>, []>
+    : ParseFilters<Rest, Name, []>;
+
+/** Text after an inline default value: a quoted string, or bare text up to "|" */
+type SkipDefault<S extends string> = S extends `${infer Q extends '"' | "'"}${infer Quoted}`
+  ? [AfterUnescaped<Quoted, Q>] extends [never]
+    ? 'INVALID_DEFAULT'
+    : AfterUnescaped<Quoted, Q>
+  : S extends `${infer Bare}|${infer After}`
+    ? EndsEscaped<Bare> extends true
+      ? 'INVALID_DEFAULT' extends SkipDefault<After>
+        ? `|${After}` // an escaped "|" and whatever follows belong to the default
+        : SkipDefault<After>
+      : Trim<Bare> extends ''
+        ? 'INVALID_DEFAULT'
+        : `|${After}`
+    : Trim<S> extends ''
+      ? 'INVALID_DEFAULT'
+      : '';
+
+/** Filter chain of a slot body: "|name" segments with optional "#args" */
+type ParseFilters<
+  Rest extends string,
+  Name extends string,
+  Filters extends string[],
+> = Rest extends `|${infer After}`
+  ? TrimLeft<After> extends `${IdentStart}${string}`
+    ? ScanIdent<TrimLeft<After>> extends [infer Filter extends string, infer Tail extends string]
+      ? TrimLeft<Tail> extends `#${infer Args}`
+        ? ParseFilters<SkipArgs<Args>, Name, [...Filters, Filter]>
+        : ParseFilters<TrimLeft<Tail>, Name, [...Filters, Filter]>
+      : never
+    : 'INVALID_FILTER_NAME'
+  : Filters extends [] & (Rest extends `#${string}` ? unknown : never)
+    ? 'ARGS_WITHOUT_FILTER'
+    : TrimLeft<Rest> extends ''
+      ? ParsedSlot<Name, Filters>
+      : 'UNEXPECTED_TRAILING_CONTENT';
+
+/**
+ * Filter arguments end at the first "|" outside quotes that is not escaped.
+ * Returns the text from that "|" on ('' when the arguments run to the end).
+ */
+type SkipArgs<S extends string> = S extends `${infer Head}|${infer Rest}`
+  ? Head extends `${string}${'"' | "'" | '\\'}${string}`
+    ? ScanArgs<S>
+    : `|${Rest}`
+  : '';
+
+/** SkipArgs one character at a time, for arguments holding quotes or escapes */
+type ScanArgs<S extends string> = S extends `${infer Ch}${infer Rest}`
+  ? Ch extends '\\'
+    ? ScanArgs<DropFirst<Rest>>
+    : Ch extends '"' | "'"
+      ? [AfterUnescaped<Rest, Ch>] extends [never]
+        ? '' // unterminated quote: the runtime reads it to the end
+        : SkipArgs<AfterUnescaped<Rest, Ch>>
+      : Ch extends '|'
+        ? S
+        : ScanArgs<Rest>
+  : '';
+
+/** A template token the runtime parser would reject, with its code and tag text */
+interface SyntaxIssue<Code extends ParseErrorCode = ParseErrorCode, Tag extends string = string> {
+  readonly kind: 'error';
+  readonly code: Code;
+  readonly tag: Tag;
+}
+
+/** A slot, section tag or include found by the type-level tokenizer */
+type Token =
+  | { readonly kind: 'slot'; readonly slot: ParsedSlot; readonly tag: string }
+  | { readonly kind: 'if'; readonly slot: ParsedSlot; readonly tag: string }
+  | {
+      readonly kind: 'each';
+      readonly slot: ParsedSlot;
+      readonly alias: string;
+      readonly tag: string;
+    }
+  | { readonly kind: 'with'; readonly slot: ParsedSlot; readonly tag: string }
+  | { readonly kind: 'else'; readonly tag: string }
+  | { readonly kind: 'close'; readonly block: string; readonly tag: string }
+  | { readonly kind: 'partial'; readonly tag: string }
+  | SyntaxIssue;
+
+/** Most tokens read by one Tokenize step; see ScanChunks */
+type TokenChunk = 32;
+
 /**
- * Extract slot name from slot body, handling filters and format specifiers.
+ * Read the next tokens of a template source with the runtime's rules: a backslash escapes
+ * the next character (so `\{` is text), comments are dropped, bodies end at the first
+ * unescaped close delimiter and an open delimiter inside a body is an error.
+ * Yields [tokens, rest of the source] after at most TokenChunk tokens, so the tuple copies
+ * stay short; a tokenizer error becomes the last token and leaves no rest.
+ */
+type Tokenize<
+  S extends string,
+  O extends string,
+  C extends string,
+  Acc extends Token[] = [],
+> = Acc['length'] extends TokenChunk
+  ? [Acc, S]
+  : S extends `${infer Head}${O}${infer After}`
+    ? EndsEscaped<Head> extends true
+      ? Tokenize<`${DropFirst<O>}${After}`, O, C, Acc>
+      : After extends `!${string}` | `-!${string}`
+        ? After extends `${string}${C}${infer Rest}`
+          ? Tokenize<Rest, O, C, Acc>
+          : [[...Acc, SyntaxIssue<'UNMATCHED_OPEN_BRACE', `${O}${After}`>], '']
+        : ScanBody<After, O, C, ''> extends [infer Body extends string, infer Rest extends string]
+          ? Tokenize<Rest, O, C, [...Acc, ParseToken<StripTrimMarkers<Body>, `${O}${Body}${C}`>]>
+          : [[...Acc, ScanBody<After, O, C, ''> & SyntaxIssue], '']
+    : [Acc, ''];
+
+/**
+ * Body of a tag up to its first unescaped close delimiter: [body, rest after the delimiter],
+ * or the issue for a nested open delimiter or a missing close delimiter
+ */
+type ScanBody<
+  S extends string,
+  O extends string,
+  C extends string,
+  Acc extends string,
+> = S extends `${infer Body}${C}${infer Rest}`
+  ? EndsEscaped<Body> extends true
+    ? ScanBody<`${DropFirst<C>}${Rest}`, O, C, `${Acc}${Body}${First<C>}`>
+    : HasUnescaped<`${Acc}${Body}`, O> extends true
+      ? SyntaxIssue<'NESTED_OPEN_BRACE', `${O}${Acc}${Body}${C}`>
+      : [`${Acc}${Body}`, Rest]
+  : HasUnescaped<`${Acc}${S}`, O> extends true
+    ? SyntaxIssue<'NESTED_OPEN_BRACE', `${O}${Acc}${S}`>
+    : SyntaxIssue<'UNMATCHED_OPEN_BRACE', `${O}${Acc}${S}`>;
+
+/** Drop the {- and -} whitespace-control markers around a tag body ("- name -" -> " name ") */
+type StripTrimMarkers<Tag extends string> = Tag extends `-${infer Body}`
+  ? StripTrimMarkerRight<Body>
+  : StripTrimMarkerRight<Tag>;
+
+/** Drop a trailing " -" marker; the dash needs whitespace before it */
+type StripTrimMarkerRight<Body extends string> = Body extends `${infer Head}${WS}-` ? Head : Body;
+
+/** Token for one tag body (trim markers removed); Tag is the whole tag for messages */
+type ParseToken<Body extends string, Tag extends string> =
+  TrimLeft<Body> extends `${'#' | '/'}${string}`
+    ? ParseSection<TrimLeft<Body>, Tag>
+    : TrimLeft<Body> extends `>${string}`
+      ? { readonly kind: 'partial'; readonly tag: Tag }
+      : SlotToken<'slot', ParseSlotBody<Body>, Tag>;
+
+/** Token for a parsed slot body, or the issue it raised */
+type SlotToken<Kind extends 'slot' | 'if' | 'with', Parsed, Tag extends string> =
+  Parsed extends ParsedSlot
+    ? { readonly kind: Kind; readonly slot: Parsed; readonly tag: Tag }
+    : SyntaxIssue<Parsed & ParseErrorCode, Tag>;
+
+/** Token for a {#…} or {/…} section tag body (starting at "#" or "/") */
+type ParseSection<Body extends string, Tag extends string> = Body extends `/${infer Rest}`
+  ? ScanIdent<Rest> extends [infer Block extends string, infer Tail extends string]
+    ? Trim<Tail> extends ''
+      ? { readonly kind: 'close'; readonly block: Block; readonly tag: Tag }
+      : SyntaxIssue<'UNEXPECTED_BLOCK_CLOSE', Tag>
+    : never
+  : Body extends `#${infer Rest}`
+    ? ScanIdent<Rest> extends [infer Keyword extends string, infer Tail extends string]
+      ? Keyword extends 'else'
+        ? Trim<Tail> extends ''
+          ? { readonly kind: 'else'; readonly tag: Tag }
+          : SyntaxIssue<'UNEXPECTED_ELSE', Tag>
+        : Keyword extends 'if' | 'unless'
+          ? Tail extends '' | `${WS}${string}`
+            ? SlotToken<'if', ParseSlotBody<Tail>, Tag>
+            : SyntaxIssue<'UNKNOWN_BLOCK', Tag>
+          : Keyword extends 'each'
+            ? ParseEach<Tail, Tag>
+            : Keyword extends 'with'
+              ? ParseWith<Tail, Tag>
+              : SyntaxIssue<'UNKNOWN_BLOCK', Tag>
+      : never
+    : never;
+
+/** {#each <slot body> as <alias>} after the keyword */
+type ParseEach<Spec extends string, Tag extends string> =
+  Spec extends `${WS}${infer Coll}${WS}as${WS}${infer Alias}`
+    ? ScanIdent<Trim<Alias>> extends [infer Name extends `${IdentStart}${string}`, '']
+      ? ParseSlotBody<Coll> extends infer Parsed
+        ? Parsed extends ParsedSlot
+          ? {
+              readonly kind: 'each';
+              readonly slot: Parsed;
+              readonly alias: Name;
+              readonly tag: Tag;
+            }
+          : SyntaxIssue<Parsed & ParseErrorCode, Tag>
+        : never
+      : SyntaxIssue<'INVALID_EACH', Tag>
+    : SyntaxIssue<'INVALID_EACH', Tag>;
+
+/** {#with <path>} after the keyword: a plain path without filters or defaults */
+type ParseWith<Spec extends string, Tag extends string> = Spec extends `${WS}${string}`
+  ? ParseSlotBody<Spec> extends infer Parsed
+    ? Parsed extends ParsedSlot<`${string}?`> | ParsedSlot<string, [string, ...string[]]>
+      ? SyntaxIssue<'INVALID_WITH', Tag>
+      : SlotToken<'with', Parsed, Tag>
+    : never
+  : SyntaxIssue<'INVALID_WITH', Tag>;
+
+/** An open section on the checker's stack */
+type OpenSection = { readonly kind: string; readonly hasElse: boolean; readonly tag: string };
+
+/**
+ * What the type-level parser learns from a template source: its slot paths (see
+ * CollectSlotPaths), its filter names and the first issue the runtime parser would report.
+ */
+interface TemplateScan<
+  Paths extends string = string,
+  Filters extends string = string,
+  Issue extends SyntaxIssue | null = SyntaxIssue | null,
+> {
+  readonly paths: Paths;
+  readonly filters: Filters;
+  readonly issue: Issue;
+}
+
+/** TemplateScan in progress: also tracks the {#each}/{#with} scopes and the open sections */
+interface ScanState<
+  Paths extends string = string,
+  Filters extends string = string,
+  Issue extends SyntaxIssue | null = SyntaxIssue | null,
+  Scopes extends EachScope[] = EachScope[],
+  Sections extends OpenSection[] = OpenSection[],
+> extends TemplateScan<Paths, Filters, Issue> {
+  readonly scopes: Scopes;
+  readonly sections: Sections;
+}
+
+/**
+ * Scan a template source S for delimiters D; templates with delimiters that are not string
+ * literals (or are empty, which the runtime rejects) yield nothing.
+ */
+type ScanTemplate<S extends string, D extends Delimiters> = string extends D[0] | D[1]
+  ? TemplateScan<never, never, null>
+  : '' extends D[0] | D[1]
+    ? TemplateScan<never, never, null>
+    : ScanChunks<S, D[0], D[1], ScanState<never, never, null, [], []>>;
+
+/**
+ * Scan the source a chunk of tokens at a time.
+ * Every loop here is tail-recursive and bounded by the chunk size or the number of chunks,
+ * which keeps templates of thousands of tokens within the compiler's recursion limits.
+ */
+type ScanChunks<S extends string, O extends string, C extends string, State extends ScanState> =
+  Tokenize<S, O, C> extends [infer Tokens extends Token[], infer Rest extends string]
+    ? Tokens extends []
+      ? FinishScan<State>
+      : ScanChunks<
+          Rest,
+          O,
+          C,
+          WalkTokens<
+            Tokens,
+            State['paths'],
+            State['filters'],
+            State['issue'],
+            State['scopes'],
+            State['sections']
+          >
+        >
+    : never;
+
+/**
+ * Fold a chunk of tokens into the scan state, keeping each part of it in its own parameter;
+ * once an issue is found the sections are no longer checked
+ */
+type WalkTokens<
+  Tokens extends Token[],
+  Paths extends string,
+  Filters extends string,
+  Issue extends SyntaxIssue | null,
+  Scopes extends EachScope[],
+  Sections extends OpenSection[],
+> = Tokens extends [infer T extends Token, ...infer Rest extends Token[]]
+  ? WalkTokens<
+      Rest,
+      Paths | TokenPaths<T, Scopes>,
+      Filters | TokenFilterNames<T>,
+      Issue extends null ? IssueAfter<NextStack<T, Sections>> : Issue,
+      ScopesAfter<T, Scopes>,
+      Issue extends null ? SectionsAfterToken<NextStack<T, Sections>> : []
+    >
+  : ScanState<Paths, Filters, Issue, Scopes, Sections>;
+
+/** The issue of a NextStack result, or null when it is a section stack */
+type IssueAfter<Next> = Next extends SyntaxIssue ? Next : null;
+
+/** The section stack of a NextStack result ([] when it is an issue) */
+type SectionsAfterToken<Next> = Next extends OpenSection[] ? Next : [];
+
+/** Finished scan: sections still open at the end of the source are unclosed */
+type FinishScan<State extends ScanState> = TemplateScan<
+  State['paths'],
+  State['filters'],
+  State['issue'] extends null
+    ? State['sections'] extends [infer Top extends OpenSection, ...OpenSection[]]
+      ? SyntaxIssue<'UNCLOSED_BLOCK', Top['tag']>
+      : null
+    : State['issue']
+>;
+
+/** Slot paths read by a token, resolved against the {#each}/{#with} scopes */
+type TokenPaths<T extends Token, Scopes extends EachScope[]> = T extends {
+  readonly kind: 'slot';
+  readonly slot: infer Slot extends ParsedSlot;
+}
+  ? WithFilterSuffix<ResolvePath<Slot['name'], Scopes>, Slot['filters']>
+  : T extends { readonly kind: 'if'; readonly slot: infer Slot extends ParsedSlot }
+    ? ResolvePath<Slot['name'], Scopes>
+    : T extends { readonly kind: 'each'; readonly slot: infer Slot extends ParsedSlot }
+      ? `${ResolvePath<Slot['name'], Scopes>}.[]`
+      : never;
+
+/** Filter names of a slot or section subject token */
+type TokenFilterNames<T extends Token> = T extends { readonly slot: infer Slot extends ParsedSlot }
+  ? Slot['filters'][number]
+  : never;
+
+/** {#each}/{#with} scopes after a token */
+type ScopesAfter<T extends Token, Scopes extends EachScope[]> = T extends {
+  readonly kind: 'each';
+  readonly slot: infer Slot extends ParsedSlot;
+  readonly alias: infer Alias extends string;
+}
+  ? [[Alias, `${ResolvePath<Slot['name'], Scopes>}.[]`], ...Scopes]
+  : T extends { readonly kind: 'with'; readonly slot: infer Slot extends ParsedSlot }
+    ? [['', ResolvePath<Slot['name'], Scopes>], ...Scopes]
+    : T extends { readonly kind: 'close'; readonly block: 'each' | 'with' }
+      ? PopScope<Scopes>
+      : Scopes;
+
+/** True when an {#each} section is open */
+type InLoop<Stack extends OpenSection[]> = Stack extends [
+  infer Top extends OpenSection,
+  ...infer Outer extends OpenSection[],
+]
+  ? Top['kind'] extends 'each'
+    ? true
+    : InLoop<Outer>
+  : false;
+
+/**
+ * Section stack after a token, or the issue it raises: includes need a registry, loop
+ * variables an {#each} section and {#else}/{/…} tags a matching open section.
+ */
+type NextStack<T extends Token, Stack extends OpenSection[]> = T extends SyntaxIssue
+  ? T
+  : T extends { readonly kind: 'partial'; readonly tag: infer Tag extends string }
+    ? SyntaxIssue<'UNKNOWN_PARTIAL', Tag>
+    : T extends { readonly slot: ParsedSlot<`@${string}`>; readonly tag: infer Tag extends string }
+      ? InLoop<Stack> extends false
+        ? SyntaxIssue<'LOOP_VARIABLE_OUTSIDE_EACH', Tag>
+        : T extends { readonly kind: 'with' }
+          ? SyntaxIssue<'INVALID_WITH', Tag>
+          : SectionsAfter<T, Stack>
+      : SectionsAfter<T, Stack>;
+
+/** Section stack after a section tag, or the issue a misplaced {#else} or {/…} raises */
+type SectionsAfter<T extends Token, Stack extends OpenSection[]> = T extends {
+  readonly kind: 'if' | 'each' | 'with';
+  readonly tag: infer Tag extends string;
+}
+  ? [{ kind: SectionKind<Tag>; hasElse: false; tag: Tag }, ...Stack]
+  : T extends { readonly kind: 'else'; readonly tag: infer Tag extends string }
+    ? Stack extends [infer Top extends OpenSection, ...infer Outer extends OpenSection[]]
+      ? Top['kind'] extends 'with'
+        ? SyntaxIssue<'UNEXPECTED_ELSE', Tag>
+        : Top['hasElse'] extends true
+          ? SyntaxIssue<'UNEXPECTED_ELSE', Tag>
+          : [{ kind: Top['kind']; hasElse: true; tag: Top['tag'] }, ...Outer]
+      : SyntaxIssue<'UNEXPECTED_ELSE', Tag>
+    : T extends { readonly kind: 'close'; readonly block: infer Block; readonly tag: infer Tag }
+      ? Stack extends [infer Top extends OpenSection, ...infer Outer extends OpenSection[]]
+        ? Top['kind'] extends Block
+          ? Outer
+          : SyntaxIssue<'UNEXPECTED_BLOCK_CLOSE', Tag & string>
+        : SyntaxIssue<'UNEXPECTED_BLOCK_CLOSE', Tag & string>
+      : Stack;
+
+/** Section keyword of an opening tag ("{#unless a}" -> "unless") */
+type SectionKind<Tag extends string> = Tag extends `${string}#${infer Rest}`
+  ? ScanIdent<Rest>[0]
+  : never;
+
+/**
+ * An {#each} scope: the alias and the path (with "[]" element markers) it stands for.
+ * A {#with} scope has an empty alias and the base path every other name is read below.
+ */
+type EachScope = [alias: string, path: string];
+
+/**
+ * Rewrite a slot path read inside {#each}/{#with} sections into a params path.
+ * Aliases become "<collection>.[]", names inside {#with base} get the base prefix and
+ * loop variables (@index, …) are dropped:
+ * inside {#each items as item}, "item.title" -> "items.[].title".
+ */
+type ResolvePath<Name extends string, Scopes extends EachScope[]> = Name extends `@${string}`
+  ? never
+  : Scopes extends [
+        [infer Alias, infer Path extends string],
+        ...infer Outer extends EachScope[],
+      ]
+    ? Alias extends ''
+      ? `${Path}.${Name}`
+      : UnmarkSegment<PathRoot<Name>> extends Alias
+        ? Name extends `${string}.${infer Rest}`
+          ? `${Path}.${Rest}`
+          : Path
+        : ResolvePath<Name, Outer>
+    : Name;
+
+/** Drop the innermost {#each}/{#with} scope */
+type PopScope<Scopes extends EachScope[]> = Scopes extends [
+  EachScope,
+  ...infer Outer extends EachScope[],
+]
+  ? Outer
+  : [];
+
+/**
+ * Collect all slot paths from a template string.
+ * Tokenizes "{name}" tags (or the custom delimiters D) like the runtime parser and extracts
+ * the slot names (dotted paths kept whole, optional segments marked), tracking {#each} scopes
+ * so loop-local slots resolve to element paths of their collection.
+ * Slots with filters carry their first filter as a suffix ("{total|fixed#2}" -> "total|fixed"),
+ * which types their value (see FilterInput); CollectSlotNames has the bare paths.
+ * Delimiters that are not string literals give up and yield `string`.
+ */
+type CollectSlotPaths<S extends string, D extends Delimiters> = string extends D[0] | D[1]
+  ? string
+  : ScanTemplate<S, D>['paths'];
+
+/** Slot paths of a template string without their filter suffixes */
+type CollectSlotNames<S extends string, D extends Delimiters> = StripFilterSuffix<
+  CollectSlotPaths<S, D>
+>;
+
+/** Drop the first-filter suffix of a collected slot path ("total|fixed" -> "total") */
+type StripFilterSuffix<P extends string> = P extends `${infer Path}|${string}` ? Path : P;
+
+/** Append a slot's first filter to its path */
+type WithFilterSuffix<P extends string, Filters extends string[]> = Filters extends [
+  infer F extends string,
+  ...string[],
+]
+  ? `${P}|${F}`
+  : P;
+
+/**
+ * Value type a filter named F accepts: from the custom filter types FT when F is one of them,
+ * else from BuiltinFilterTypes; `unknown` for unknown names.
+ */
+type FilterInput<F extends string, FT extends FilterTypeMap> = F extends keyof FT
+  ? FT[F]['input']
+  : F extends BuiltinFilterName
+    ? BuiltinFilterTypes[F]['input']
+    : unknown;
+
+/** Root parameter key of a slot path ("user.address.city" -> "user") */
+type PathRoot<P extends string> = P extends `${infer Head}.${string}` ? Head : P;
+
+/**
+ * Nested object shape required by a single slot path.
+ * Numeric segments describe indexable values, "[]" segments (from {#each}) array elements,
+ * other segments object properties. A first-filter suffix types the value, looking custom
+ * filters up in FT.
  * Examples:
- * - "name" -> "name"
- * - "name|filter" -> "name"
- * - "name#format" -> "name"
- * - " name | filter " -> "name"
+ * - "name" -> { name: unknown }
+ * - "user.address.city" -> { user: { address: { city: unknown } } }
+ * - "items.0.title" -> { items: { readonly [index: number]: { title: unknown } } }
+ * - "items.[].title" -> { items: ArrayOf<{ title: unknown }> }
+ * - "user?.name?" -> { user?: { name?: unknown } }
+ * - "total|fixed" -> { total: number }
  */
-type SlotNameFromBody<Body extends string> = Body extends `${infer Name}|${string}`
-  ? Trim<Name>
-  : Body extends `${infer Name}#${string}`
-    ? Trim<Name>
-    : Trim<Body>;
+type ShapeForPath<
+  P extends string,
+  FT extends FilterTypeMap,
+> = P extends `${infer Head}.${infer Rest}`
+  ? ShapeForSegment<Head, ShapeForPath<Rest, FT>>
+  : P extends `${infer Segment}|${infer F}`
+    ? ShapeForSegment<Segment, FilterInput<F, FT>>
+    : ShapeForSegment<P, unknown>;
 
 /**
- * Recursively collect all slot names from a template string.
- * Parses "{name}" patterns and extracts the slot names.
+ * Array whose elements have shape V.
+ * Spelled as an intersection so extra fields on element object literals are not
+ * rejected by excess property checks (nested objects may carry extra fields).
  */
-type CollectSlotNames<S extends string> = S extends `${string}{${infer Body}}${infer Rest}`
-  ? SlotNameFromBody<Body> | CollectSlotNames<Rest>
+type ArrayOf<V> = readonly unknown[] & { readonly [index: number]: V };
+
+/** Shape for a single path segment holding a value of type V */
+type ShapeForSegment<Segment extends string, V> = Segment extends '[]'
+  ? ArrayOf<V>
+  : UnmarkSegment<Segment> extends `${number}`
+    ? { readonly [index: number]: V }
+    : Segment extends `${infer Name}?`
+      ? { [K in Name]?: V }
+      : { [K in Segment]: V };
+
+/** Merge a union of object types into their intersection */
+type UnionToIntersection<U> = (U extends unknown ? (u: U) => void : never) extends (
+  i: infer I
+) => void
+  ? I
   : never;
 
-/** All slot keys as a string union for a given template source S */
-export type SlotKeys<S extends string> = CollectSlotNames<S> & string;
+/**
+ * Filter names used in a template source S ("{a|upper|pad#5}" -> "upper" | "pad"),
+ * including filters on section subjects.
+ */
+type CollectFilterNames<S extends string, D extends Delimiters> = ScanTemplate<
+  S,
+  D
+>['filters'];
+
+/**
+ * Value types the built-in filters accept and produce (see builtinFilters).
+ * A slot's first filter decides the type of its param: `{total|fixed#2}` needs a number.
+ */
+export interface BuiltinFilterTypes {
+  upper: { input: unknown; output: string };
+  lower: { input: unknown; output: string };
+  trim: { input: unknown; output: string };
+  slice: { input: unknown; output: string };
+  wrap: { input: unknown; output: string };
+  json: { input: unknown; output: string };
+  path: { input: object; output: unknown };
+  pad: { input: unknown; output: string };
+  fixed: { input: number; output: string };
+  map: { input: readonly unknown[]; output: string[] };
+  join: { input: readonly unknown[]; output: string };
+  raw: { input: unknown; output: unknown };
+  ident: { input: unknown; output: unknown };
+  secret: { input: unknown; output: unknown };
+  number: { input: number | bigint; output: string };
+  currency: { input: number | bigint; output: string };
+  percent: { input: number | bigint; output: string };
+  date: { input: Date | number | string; output: string };
+  time: { input: Date | number | string; output: string };
+  datetime: { input: Date | number | string; output: string };
+  relative: { input: number | Date; output: string };
+  list: { input: readonly unknown[]; output: string };
+  plural: { input: number | bigint; output: string };
+  ordinal: { input: number | bigint; output: string };
+  select: { input: string; output: string };
+}
+
+/** Names of the built-in filters */
+export type BuiltinFilterName = keyof BuiltinFilterTypes;
+
+/** Value types one filter accepts and produces */
+export interface FilterTypeEntry {
+  readonly input: unknown;
+  readonly output: unknown;
+}
+
+/** Value types of custom filters by name, shaped like BuiltinFilterTypes */
+export type FilterTypeMap = Readonly<Record<string, FilterTypeEntry>>;
+
+/** No custom filter types */
+export type NoFilterTypes = Readonly<Record<never, FilterTypeEntry>>;
+
+/**
+ * Any filter function, whatever value type it declares.
+ * Custom filters given to createLoom() may narrow their value parameter: it types the
+ * params of the slots they are the first filter of.
+ */
+export type CustomFilterFn = (value: never, ...args: never[]) => unknown;
+
+/** Value types of custom filter functions F: `(v: number) => string` -> { input: number; … } */
+export type FilterTypes<F extends Record<string, CustomFilterFn>> = {
+  readonly [K in keyof F & string]: {
+    readonly input: F[K] extends (value: infer V, ...args: never[]) => unknown ? V : unknown;
+    readonly output: Awaited<ReturnType<F[K]>>;
+  };
+};
+
+/**
+ * Filter names used by a template source S that are neither built-in nor in F
+ * (the names of the filters passed to compile).
+ */
+export type UnknownFilters<
+  S extends string,
+  F extends string = never,
+  D extends Delimiters = DefaultDelimiters,
+> = Exclude<CollectFilterNames<S, D>, BuiltinFilterName | F>;
+
+/**
+ * Code of the error the runtime parser reports for a template source S (the first one,
+ * as `compile` would throw it), or never when S parses. Filter arguments (typed arguments and
+ * plural, ordinal and select cases) are only checked at runtime.
+ */
+export type TemplateSyntaxError<
+  S extends string,
+  D extends Delimiters = DefaultDelimiters,
+> = Exclude<ScanTemplate<S, D>['issue'], null>['code'];
+
+/**
+ * A compile-time error carried by a parameter type.
+ * Passing a value where a LoomError is expected fails with the message in the type.
+ */
+export interface LoomError<Message extends string> {
+  readonly __loomError: Message;
+}
+
+/**
+ * Check the filter names of a template source S: `unknown` when every filter is built-in or
+ * in F, otherwise a LoomError naming the unknown filters ("Unknown filter: uppr").
+ */
+export type CheckFilters<
+  S extends string,
+  F extends string = never,
+  D extends Delimiters = DefaultDelimiters,
+> = [UnknownFilters<S, F, D>] extends [never]
+  ? unknown
+  : LoomError<`Unknown filter: ${UnknownFilters<S, F, D>}`>;
+
+/**
+ * Check a template source S the way `compile` does: `unknown` when it parses and uses only
+ * known filters, otherwise a LoomError with the parse error code and the offending tag
+ * ("Invalid template: NESTED_OPEN_BRACE in {a{b}") or the unknown filters.
+ */
+export type CheckTemplate<
+  S extends string,
+  F extends string = never,
+  D extends Delimiters = DefaultDelimiters,
+> = string extends S | D[0] | D[1]
+  ? unknown
+  : ScanTemplate<S, D>['issue'] extends SyntaxIssue<infer Code, infer Tag>
+    ? LoomError<`Invalid template: ${Code} in ${Tag}`>
+    : CheckFilters<S, F, D>;
+
+/** Open and close slot delimiters of a template */
+export type Delimiters = readonly [open: string, close: string];
+
+/** The default `{` / `}` delimiters */
+export type DefaultDelimiters = readonly ['{', '}'];
+
+/** All slot paths as a string union for a given template source S (e.g., "user.address.city") */
+export type SlotPaths<S extends string, D extends Delimiters = DefaultDelimiters> = Unmark<
+  CollectSlotNames<S, D>
+> &
+  string;
+
+/**
+ * Required slot keys (top-level params keys) as a string union for a given template source S.
+ * Keys only read by optional slots ({name?}, {name ?? "default"}) are in OptionalSlotKeys.
+ */
+export type SlotKeys<S extends string, D extends Delimiters = DefaultDelimiters> = Exclude<
+  PathRoot<CollectSlotNames<S, D>>,
+  `${string}?`
+> &
+  string;
+
+/** Top-level params keys that a template source S accepts but does not require */
+export type OptionalSlotKeys<S extends string, D extends Delimiters = DefaultDelimiters> = Exclude<
+  Unmark<Extract<PathRoot<CollectSlotNames<S, D>>, `${string}?`>>,
+  SlotKeys<S, D>
+> &
+  string;
+
+/**
+ * Nested params shape for a template source S, merged from every slot path.
+ * `{user.name} {user.address.city}` -> { user: { name: unknown; address: { city: unknown } } }
+ * `{nickname?}` -> { nickname?: unknown }
+ * The first filter of a slot types its value, custom filters by their entry in FT:
+ * `{total|fixed}` -> { total: number }
+ */
+export type ParamsShape<
+  S extends string,
+  D extends Delimiters = DefaultDelimiters,
+  FT extends FilterTypeMap = NoFilterTypes,
+> = UnionToIntersection<ShapeForPath<CollectSlotPaths<S, D>, FT>>;
 
 /**
  * Enforce exact object keys (no extras) for a given key set K.
@@ -44,29 +828,252 @@ export type ExactParamsForKeys<K extends string, P extends Record<K, unknown>> =
 
 /**
  * Enforce exact object keys for a template source S.
- * Ensures the params object has exactly the keys required by the template slots.
+ * Ensures the params object has the top-level keys required by the template slots, no keys
+ * beyond those and the optional ones, and that dotted slots find the nested objects they read
+ * (nested objects may carry extra fields).
  */
 export type ExactParamsFor<
   S extends string,
-  P extends Record<SlotKeys<S>, unknown>,
-> = ExactParamsForKeys<SlotKeys<S>, P>;
+  P extends Record<SlotKeys<S, D>, unknown>,
+  D extends Delimiters = DefaultDelimiters,
+  FT extends FilterTypeMap = NoFilterTypes,
+> = P &
+  Record<Exclude<keyof P, SlotKeys<S, D> | OptionalSlotKeys<S, D>>, never> &
+  ParamsShape<S, D, FT>;
+
+/**
+ * Shape T with a promise allowed in place of each value, at any depth of nested objects.
+ * Array elements keep their type (promises in them are still awaited at runtime).
+ */
+type AwaitableShape<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]: AwaitableShape<T[K]> | PromiseLike<AwaitableShape<T[K]>> }
+    : T;
+
+/**
+ * Exact params for renderAsync/toPartsAsync of a template source S: as ExactParamsFor,
+ * but any value (or nested object) may be given as a promise of it.
+ */
+export type AsyncParamsFor<
+  S extends string,
+  P extends Record<SlotKeys<S, D>, unknown>,
+  D extends Delimiters = DefaultDelimiters,
+  FT extends FilterTypeMap = NoFilterTypes,
+> = P &
+  Record<Exclude<keyof P, SlotKeys<S, D> | OptionalSlotKeys<S, D>>, never> &
+  AwaitableShape<ParamsShape<S, D, FT>>;
+
+/**
+ * Exact params for the remaining (unbound) keys R of a template source S,
+ * keeping the nested shape required by dotted slots under those keys.
+ * Optional keys may always be passed, bound or not.
+ */
+type RemainingParamsFor<
+  S extends string,
+  R extends string,
+  P extends Record<R, unknown>,
+  D extends Delimiters,
+  FT extends FilterTypeMap,
+> = P &
+  Record<Exclude<keyof P, R | OptionalSlotKeys<S, D>>, never> &
+  Pick<ParamsShape<S, D, FT>, (R | OptionalSlotKeys<S, D>) & keyof ParamsShape<S, D, FT>>;
+
+/** RemainingParamsFor with promises allowed in place of values (see AsyncParamsFor) */
+type AsyncRemainingParamsFor<
+  S extends string,
+  R extends string,
+  P extends Record<R, unknown>,
+  D extends Delimiters,
+  FT extends FilterTypeMap,
+> = P &
+  Record<Exclude<keyof P, R | OptionalSlotKeys<S, D>>, never> &
+  AwaitableShape<
+    Pick<ParamsShape<S, D, FT>, (R | OptionalSlotKeys<S, D>) & keyof ParamsShape<S, D, FT>>
+  >;
+
+/**
+ * Inline the {>name} and {>name with path} includes of a source S using partial sources M,
+ * mirroring the registry at runtime: remapped includes become {#with path}…{/with}.
+ * Unknown and cyclic includes are left empty here; the registry rejects them when compiling.
+ */
+export type ExpandPartials<
+  S extends string,
+  M extends Record<string, string>,
+  D extends Delimiters = DefaultDelimiters,
+> = string extends D[0] | D[1] ? string : ExpandPartialsWith<S, M, D[0], D[1], never, ''>;
+
+/** ExpandPartials for literal delimiters O and C; Seen holds the partials being inlined */
+type ExpandPartialsWith<
+  S extends string,
+  M extends Record<string, string>,
+  O extends string,
+  C extends string,
+  Seen extends string,
+  Acc extends string,
+> = S extends `${infer Head}${O}>${infer Spec}${C}${infer Rest}`
+  ? ExpandPartialsWith<
+      Rest,
+      M,
+      O,
+      C,
+      Seen,
+      EndsEscaped<Head> extends true
+        ? `${Acc}${Head}${O}>${Spec}${C}` // escaped open delimiter: not an include
+        : `${Acc}${Head}${IncludeText<Trim<Spec>, M, O, C, Seen>}`
+    >
+  : `${Acc}${S}`;
+
+/** Replacement text for one include spec ("header" or "address with shipping") */
+type IncludeText<
+  Spec extends string,
+  M extends Record<string, string>,
+  O extends string,
+  C extends string,
+  Seen extends string,
+> = Spec extends `${infer Name}${WS}with${WS}${infer Path}`
+  ? `${O}#with ${Trim<Path>}${C}${PartialText<Trim<Name>, M, O, C, Seen>}${O}/with${C}`
+  : PartialText<Spec, M, O, C, Seen>;
+
+/** Expanded source of a registered partial ('' when unknown or already being inlined) */
+type PartialText<
+  Name extends string,
+  M extends Record<string, string>,
+  O extends string,
+  C extends string,
+  Seen extends string,
+> = [Name] extends [Seen]
+  ? ''
+  : Name extends keyof M
+    ? ExpandPartialsWith<M[Name], M, O, C, Seen | Name, ''>
+    : '';
 
 /**
  * Filter function that transforms a value with optional arguments.
+ * Untyped filters receive each argument as written in the template, as a string.
+ * A filter may return a promise when templates are rendered with renderAsync/toPartsAsync.
  * @param value - The input value to transform
  * @param args - Optional string arguments for the filter
  * @returns The transformed value
  */
 export type FilterFn = (value: unknown, ...args: string[]) => unknown;
 
+/**
+ * Literal value of a filter argument.
+ * Unquoted numbers, `true`, `false` and `null` are typed; bracketed lists (`[1, "a", [2]]`)
+ * hold literals; everything else, and any quoted argument, is a string.
+ */
+export type FilterArg = string | number | boolean | null | readonly FilterArg[];
+
+/** Argument kinds a typed filter can declare */
+export type FilterArgKind = 'string' | 'number' | 'integer' | 'boolean' | 'list' | 'any';
+
+/** Declared type of one filter argument; a trailing `?` marks it optional */
+export type FilterArgType = FilterArgKind | `${FilterArgKind}?`;
+
+/** Value a typed filter receives for an argument of the given kind */
+type FilterArgValue<K> = K extends 'string'
+  ? string
+  : K extends 'number' | 'integer'
+    ? number
+    : K extends 'boolean'
+      ? boolean
+      : K extends 'list'
+        ? readonly FilterArg[]
+        : FilterArg;
+
+/**
+ * Argument values a typed filter is called with, one per declared type.
+ * Optional arguments that were not given are undefined.
+ */
+export type FilterArgValues<T extends readonly FilterArgType[]> = {
+  -readonly [K in keyof T]: T[K] extends `${infer Kind}?`
+    ? FilterArgValue<Kind> | undefined
+    : FilterArgValue<T[K]>;
+};
+
+/**
+ * Filter that declares the types of its arguments (see typedFilter).
+ * Its arguments are checked when a template is compiled and it is called with
+ * the values described by `argTypes` instead of strings.
+ */
+export type TypedFilterFn = FilterFn & {
+  /** Declared argument types, in order */
+  readonly argTypes: readonly FilterArgType[];
+};
+
+/**
+ * A location in a template source.
+ * Offsets are 0-based; lines and columns are 1-based.
+ */
+export interface SourcePosition {
+  /** Character offset from the start of the source */
+  readonly offset: number;
+  /** Line number (1-based) */
+  readonly line: number;
+  /** Column number within the line (1-based) */
+  readonly column: number;
+}
+
+/**
+ * A half-open range [start, end) in a template source.
+ */
+export interface SourceRange {
+  /** First character of the range */
+  readonly start: SourcePosition;
+  /** Position just past the last character of the range */
+  readonly end: SourcePosition;
+}
+
+/** Stable error codes reported by the template parser */
+export type ParseErrorCode =
+  | 'INVALID_SLOT_NAME'
+  | 'INVALID_FILTER_NAME'
+  | 'ARGS_WITHOUT_FILTER'
+  | 'UNEXPECTED_TRAILING_CONTENT'
+  | 'NESTED_OPEN_BRACE'
+  | 'UNMATCHED_OPEN_BRACE'
+  | 'UNKNOWN_BLOCK'
+  | 'UNEXPECTED_ELSE'
+  | 'UNEXPECTED_BLOCK_CLOSE'
+  | 'UNCLOSED_BLOCK'
+  | 'INVALID_EACH'
+  | 'LOOP_VARIABLE_OUTSIDE_EACH'
+  | 'INVALID_DEFAULT'
+  | 'INVALID_WITH'
+  | 'UNKNOWN_PARTIAL'
+  | 'PARTIAL_CYCLE'
+  | 'INVALID_FILTER_ARGS';
+
+/**
+ * A problem found while parsing a template.
+ * Reported in bulk when parsing with `{ recover: true }`.
+ */
+export interface Diagnostic {
+  /** How serious the problem is */
+  readonly severity: 'error' | 'warning';
+  /** Stable machine-readable code */
+  readonly code: ParseErrorCode;
+  /** Human-readable description (without location) */
+  readonly message: string;
+  /** Offending range in the template source */
+  readonly range: SourceRange;
+}
+
 /**
  * Single filter invocation with its arguments inside a slot's filter chain.
  */
 export interface FilterDescriptor {
   /** Filter name as referenced in the template (e.g., "upper") */
   readonly name: string;
-  /** Arguments supplied to the filter (parsed and trimmed) */
-  readonly args: readonly string[];
+  /** Arguments supplied to the filter as literals (numbers, booleans, null, lists or strings) */
+  readonly args: readonly FilterArg[];
+  /** Text of each argument (quotes removed, escapes decoded), parallel to args */
+  readonly rawArgs?: readonly string[];
+  /** Source range of the filter, from its name to the end of its arguments */
+  readonly range?: SourceRange;
+  /** Source range of each argument, parallel to args (quotes included) */
+  readonly argRanges?: readonly SourceRange[];
 }
 
 /**
@@ -80,6 +1087,58 @@ export interface TemplatePolicy {
   readonly transform?: (slot: SlotDescriptor, value: unknown) => unknown;
   /** Custom string conversion function (defaults to String()) */
   readonly asString?: (value: unknown) => string;
+  /**
+   * Escape slot output for the context the template text puts it in (default 'none').
+   * With 'html' the text is read as HTML: slots in element content and attribute values are
+   * entity-encoded, slots in URL attributes percent-encoded (a URL starting with a scheme
+   * other than http, https, mailto or tel is replaced), and slots in scripts and event
+   * handlers encoded as JavaScript string contents or literals. Slots in CSS or inside a tag
+   * are refused. SafeString values, such as those of the `raw` filter, are output as they are.
+   * toParts values are not escaped; formatTo output is.
+   */
+  readonly escape?: 'html' | 'none';
+  /**
+   * Slots holding secrets: a string matches a slot name or the last segment of its path
+   * (`password` matches `user.password`), a RegExp is searched for in the slot name.
+   * Slots with the `secret` filter are secret too. Secret slots render normally, but are
+   * masked by renderRedacted and toPartsRedacted, and errors thrown by their transform or
+   * filters are replaced by one that does not include the value. Layered policies add to
+   * the patterns of the policies below them.
+   */
+  readonly secrets?: readonly SecretPattern[];
+  /**
+   * Locale (BCP 47 tag, or a list in order of preference) of the Intl filters: number,
+   * currency, percent, date, time, datetime, relative, list, plural and ordinal. Defaults to
+   * the runtime's.
+   */
+  readonly locale?: string | readonly string[];
+  /** Time zone of the date, time and datetime filters (IANA name such as "Europe/Berlin") */
+  readonly timeZone?: string;
+}
+
+/** A slot name, or a pattern searched for in slot names */
+export type SecretPattern = string | RegExp;
+
+/**
+ * How a secret is masked: 'mask' replaces it entirely, 'last4' keeps its last four characters
+ * (when it has at least eight), 'hash' writes a short HMAC-SHA256 of it under a secret key
+ * (RedactOptions.key), so equal values can be matched across logs but not looked up in a
+ * table of likely secrets. A function gets the secret as text, and its slot.
+ */
+export type RedactStrategy =
+  | 'mask'
+  | 'last4'
+  | 'hash'
+  | ((text: string, slot: SlotDescriptor) => string);
+
+/**
+ * Options for redacted renders (loom.renderRedacted, loom.toPartsRedacted).
+ */
+export interface RedactOptions {
+  /** How secrets are masked (default 'mask') */
+  readonly strategy?: RedactStrategy;
+  /** Key of the 'hash' strategy's HMAC, required by it; keep it out of the logs */
+  readonly key?: string | Uint8Array;
 }
 
 /**
@@ -93,6 +1152,14 @@ export interface ResolvedPolicy {
   readonly transform?: (slot: SlotDescriptor, value: unknown) => unknown;
   /** String conversion function (always present) */
   readonly asString: (value: unknown) => string;
+  /** Escaping mode (optional) */
+  readonly escape?: 'html' | 'none';
+  /** Secret slot names and patterns (optional) */
+  readonly secrets?: readonly SecretPattern[];
+  /** Locale of the Intl filters (optional) */
+  readonly locale?: string | readonly string[];
+  /** Time zone of the date filters (optional) */
+  readonly timeZone?: string;
 }
 
 /**
@@ -100,22 +1167,168 @@ export interface ResolvedPolicy {
  * Parsed from patterns like {name|filter#arg1,arg2}
  */
 export interface SlotDescriptor {
-  /** The slot name (e.g., "user" from "{user|upper}") */
+  /** The slot name (e.g., "user" from "{user|upper}", "user.address.city" for dotted paths) */
   readonly name: string;
+  /**
+   * Path segments of the slot name (e.g., ["user", "address", "city"]).
+   * A single segment for plain names; the first segment is the params key.
+   */
+  readonly path?: readonly string[];
   /** The filter name if present (e.g., "upper" from "{user|upper}") */
   readonly filter?: string;
   /**
    * Legacy alias for the first filter's arguments.
-   * For chained filters this mirrors filters[0].args for backward compatibility.
+   * For chained filters this mirrors the text of filters[0].args (filters[0].rawArgs)
+   * for backward compatibility.
    */
   readonly args: readonly string[];
   /** Ordered filter chain applied to the slot value (includes the first filter) */
   readonly filters?: readonly FilterDescriptor[];
+  /** Source range of the whole slot, braces included */
+  readonly range?: SourceRange;
+  /** Source range of the slot name */
+  readonly nameRange?: SourceRange;
+  /**
+   * True when the slot reads an {#each} alias or loop variable (@index, @first, @last)
+   * instead of a params key.
+   */
+  readonly local?: boolean;
+  /**
+   * True for {name?} and {name ?? "fallback"}: a missing, null or undefined value
+   * does not fail the render.
+   */
+  readonly optional?: boolean;
+  /** Inline default from {name ?? "fallback"}, used in place of a missing value */
+  readonly fallback?: string;
+  /** Source range of the inline default */
+  readonly fallbackRange?: SourceRange;
+}
+
+/** Static text node */
+export interface TextNode {
+  readonly kind: 'text';
+  /** Decoded text */
+  readonly value: string;
+}
+
+/** Interpolated slot node */
+export interface SlotNode {
+  readonly kind: 'slot';
+  readonly slot: SlotDescriptor;
+}
+
+/**
+ * Conditional section: {#if cond}…{#else}…{/if} or {#unless cond}…{/unless}.
+ * The condition is true when its value (after transform/filters) is truthy
+ * and not an empty array.
+ */
+export interface ConditionalNode {
+  readonly kind: 'if';
+  /** True for {#unless} */
+  readonly negate: boolean;
+  /** Condition slot (name/path plus optional filters) */
+  readonly condition: SlotDescriptor;
+  /** Nodes rendered when the condition holds (when it fails for {#unless}) */
+  readonly body: readonly TemplateNode[];
+  /** Nodes after {#else}; empty when there is no else branch */
+  readonly elseBody: readonly TemplateNode[];
+  /** Source range from the opening tag to the end of the closing tag */
+  readonly range: SourceRange;
+}
+
+/**
+ * Loop section: {#each items as item}…{#else}…{/each}.
+ * The body renders once per array element with the alias and the loop
+ * variables @index, @first and @last in scope; the else branch renders for empty arrays.
+ */
+export interface EachNode {
+  readonly kind: 'each';
+  /** Collection slot (name/path plus optional filters); must evaluate to an array */
+  readonly collection: SlotDescriptor;
+  /** Name the current element is bound to inside the body */
+  readonly alias: string;
+  /** Nodes rendered for each element */
+  readonly body: readonly TemplateNode[];
+  /** Nodes after {#else}, rendered when the array is empty */
+  readonly elseBody: readonly TemplateNode[];
+  /** Source range from the opening tag to the end of the closing tag */
+  readonly range: SourceRange;
+}
+
+/** A node in a parsed template tree */
+export type TemplateNode = TextNode | SlotNode | ConditionalNode | EachNode;
+
+/**
+ * Options for parsing a template source.
+ */
+export interface ParseOptions {
+  /**
+   * Skip malformed slots and keep going instead of throwing on the first error.
+   * Every problem is reported in ParseResult.diagnostics.
+   */
+  readonly recover?: boolean;
+  /**
+   * Open and close slot delimiters, e.g. ['{{', '}}'] or ['<%=', '%>'] (default ['{', '}']).
+   * Section tags use them too: {{#if flag}}…{{/if}}.
+   */
+  readonly delimiters?: Delimiters;
+  /**
+   * Filters whose declared argument types are checked while parsing, merged over the
+   * built-ins (pass the filters the template will be rendered with).
+   */
+  readonly filters?: Record<string, FilterFn>;
+}
+
+/**
+ * Options for compiling a template.
+ * @template D - The slot delimiters, kept as literal types for slot key extraction
+ * @template F - Names of the custom filters
+ */
+export interface CompileOptions<
+  D extends Delimiters = DefaultDelimiters,
+  F extends string = string,
+> {
+  /** Open and close slot delimiters (default ['{', '}']) */
+  readonly delimiters?: D;
+  /**
+   * Filters the template will be rendered with, merged over the built-ins: their names
+   * are known to the type checker and typed arguments are checked
+   */
+  readonly filters?: Record<F, FilterFn>;
+  /**
+   * Render through a function specialised for each policy instead of walking the template:
+   * `true` generates JavaScript (built from closures where `new Function` is not allowed),
+   * `'closures'` never generates code (for Content Security Policies that forbid eval).
+   * The function for a policy object is built on its first render and reused after that.
+   */
+  readonly codegen?: boolean | 'closures';
+  /**
+   * Slots of this template that hold secrets, by name or pattern (see TemplatePolicy.secrets);
+   * added to the template's default policy
+   */
+  readonly secrets?: readonly SecretPattern[];
+}
+
+/**
+ * Result of parsing a template source.
+ * When recovering from errors, chunks and slots hold the partial parse
+ * (malformed slots are left out).
+ */
+export interface ParseResult {
+  /** Static text chunks between slots */
+  readonly chunks: readonly string[];
+  /** Parsed slot descriptors */
+  readonly slots: readonly SlotDescriptor[];
+  /** Node tree (text, slots and sections) in document order */
+  readonly nodes: readonly TemplateNode[];
+  /** Problems found while parsing (always empty unless recovering) */
+  readonly diagnostics: readonly Diagnostic[];
 }
 
 /**
  * Template parts with processed values after transforms and filters.
- * Used for rendering the final output.
+ * Used for rendering the final output. For templates with sections these are
+ * the chunks and slots actually rendered, in output order.
  */
 export interface TemplateParts {
   /** Static text chunks between slots */
@@ -150,14 +1363,26 @@ export type { TEMPLATE_BRAND as TEMPLATE_BRAND_TYPE };
  * Provides rendering and introspection capabilities.
  *
  * @template S - The template source string type
+ * @template D - The slot delimiters the source was compiled with
+ * @template FT - Value types of the custom filters the template is rendered with
  */
-export interface Template<S extends string> {
+export interface Template<
+  S extends string,
+  D extends Delimiters = DefaultDelimiters,
+  FT extends FilterTypeMap = NoFilterTypes,
+> {
   /** Original template source string */
   readonly source: S;
+  /** Slot delimiters the source was compiled with */
+  readonly delimiters: D;
+  /** Default policy, merged under the policy passed to render (set by createLoom) */
+  readonly policy?: TemplatePolicy;
   /** Static text chunks between slots */
   readonly chunks: readonly string[];
   /** Parsed slot descriptors */
   readonly slots: readonly SlotDescriptor[];
+  /** Parsed node tree (text, slots and sections) */
+  readonly nodes: readonly TemplateNode[];
 
   /**
    * Render the template with the given parameters and optional policy.
@@ -165,8 +1390,8 @@ export interface Template<S extends string> {
    * @param policy - Optional rendering policy for filters/transforms
    * @returns Rendered string
    */
-  render<P extends Record<SlotKeys<S>, unknown>>(
-    params: ExactParamsFor<S, P>,
+  render<P extends Record<SlotKeys<S, D>, unknown>>(
+    params: ExactParamsFor<S, P, D, FT>,
     policy?: TemplatePolicy
   ): string;
 
@@ -176,8 +1401,8 @@ export interface Template<S extends string> {
    * @param policy - Optional rendering policy for filters/transforms
    * @returns Template parts with processed values
    */
-  toParts<P extends Record<SlotKeys<S>, unknown>>(
-    params: ExactParamsFor<S, P>,
+  toParts<P extends Record<SlotKeys<S, D>, unknown>>(
+    params: ExactParamsFor<S, P, D, FT>,
     policy?: TemplatePolicy
   ): TemplateParts;
 
@@ -186,28 +1411,240 @@ export interface Template<S extends string> {
    * @param params - Object with values for all template slots
    * @returns Template parts with raw values (no transforms/filters)
    */
-  toPartsRaw<P extends Record<SlotKeys<S>, unknown>>(
-    params: ExactParamsFor<S, P>
+  toPartsRaw<P extends Record<SlotKeys<S, D>, unknown>>(
+    params: ExactParamsFor<S, P, D, FT>
   ): TemplatePartsRaw;
 
+  /**
+   * Render the template, awaiting promise params and filters that return promises.
+   * Independent slots are evaluated concurrently; errors are those render would throw.
+   * @param params - Object containing values (or promises of them) for template slots
+   * @param policy - Optional rendering policy for filters/transforms
+   * @returns Promise of the rendered string
+   */
+  renderAsync<P extends Record<SlotKeys<S, D>, unknown>>(
+    params: AsyncParamsFor<S, P, D, FT>,
+    policy?: TemplatePolicy
+  ): Promise<string>;
+
+  /**
+   * Convert to parts with processed values, awaiting promise params and filters.
+   * @param params - Object containing values (or promises of them) for template slots
+   * @param policy - Optional rendering policy for filters/transforms
+   * @returns Promise of the template parts
+   */
+  toPartsAsync<P extends Record<SlotKeys<S, D>, unknown>>(
+    params: AsyncParamsFor<S, P, D, FT>,
+    policy?: TemplatePolicy
+  ): Promise<TemplateParts>;
+
   /** Brand for nominal typing */
   readonly [TEMPLATE_BRAND]: true;
 }
 
+/**
+ * Precompiled render function of a template, with its policy's filters pre-bound.
+ * Created by loom.compileFn() and loom.renderer().
+ *
+ * @template S - The literal template string type
+ * @template D - The slot delimiters the source was compiled with
+ * @template FT - Value types of the custom filters the function renders with
+ */
+export interface RenderFunction<
+  S extends string,
+  D extends Delimiters = DefaultDelimiters,
+  FT extends FilterTypeMap = NoFilterTypes,
+> {
+  /**
+   * Render the template.
+   * @param params - Object containing values for template slots
+   * @returns The rendered string
+   */
+  <P extends Record<SlotKeys<S, D>, unknown>>(params: ExactParamsFor<S, P, D, FT>): string;
+  /** The compiled template */
+  readonly template: Template<S, D, FT>;
+  /** The generated JavaScript; absent when the function was built from closures */
+  readonly code?: string;
+}
+
+/** Partial sources of a registry definition: template entries contribute their source */
+export type PartialSources<R extends Record<string, unknown>> = {
+  [K in keyof R & string]: R[K] extends { readonly source: infer S extends string }
+    ? S
+    : R[K] extends string
+      ? R[K]
+      : never;
+};
+
+/**
+ * Registry of named partials that templates include with {>name} or {>name with path}.
+ * Created by loom.registry(); every partial is expanded (and checked for cycles) up front.
+ *
+ * @template M - Partial sources by name
+ * @template D - The slot delimiters shared by all partials
+ */
+export interface TemplateRegistry<
+  M extends Record<string, string>,
+  D extends Delimiters = DefaultDelimiters,
+> {
+  /** Slot delimiters shared by all partials */
+  readonly delimiters: D;
+  /** Registered partial names */
+  readonly names: readonly (keyof M & string)[];
+
+  /**
+   * Get a registered partial as a template, with its own includes inlined.
+   * @param name - The partial name
+   * @returns The compiled partial
+   */
+  get<K extends keyof M & string>(name: K): Template<ExpandPartials<M[K], M, D>, D>;
+
+  /**
+   * Compile a template source, inlining its includes from this registry.
+   * Slots of included partials become slots of the compiled template.
+   * @param source - Template string with {slot} patterns and {>name} includes
+   * @returns Compiled template ready for rendering
+   * @throws LoomParseError for unknown partials, include cycles or malformed sources
+   */
+  compile<S extends string>(source: S): Template<ExpandPartials<S, M, D>, D>;
+}
+
+/** Source-locale message sources of a catalog definition, by message id */
+export type CatalogSources<
+  M extends Record<string, Record<string, unknown>>,
+  L extends string,
+> = {
+  [K in keyof M & string]: PartialSources<M[K]>[L & keyof M[K] & string];
+};
+
+/**
+ * Options for loom.catalog().
+ * @template D - Slot delimiters of the messages
+ * @template L - The source locale
+ */
+export interface CatalogOptions<
+  D extends Delimiters = DefaultDelimiters,
+  L extends string = string,
+> {
+  /** Locale every message is written in first, and the last fallback (default 'en') */
+  readonly sourceLocale?: L;
+  /** Slot delimiters of the raw message sources (default ['{', '}']) */
+  readonly delimiters?: D;
+}
+
+/** A difference between a translation and its source message, reported by check() */
+export interface CatalogIssue {
+  /** Message id */
+  readonly id: string;
+  /** Locale of the translation */
+  readonly locale: string;
+  /**
+   * 'missing-slot': a slot of the source is not in the translation;
+   * 'unknown-slot': the translation has a slot the source does not;
+   * 'unknown-filter': the translation uses a filter the source does not
+   */
+  readonly kind: 'missing-slot' | 'unknown-slot' | 'unknown-filter';
+  /** The slot or filter name */
+  readonly name: string;
+}
+
+/**
+ * Message templates by id and locale, resolved with a fallback chain.
+ * Created by loom.catalog(); templates are typed by their source-locale message, which
+ * check() compares every translation against.
+ *
+ * @template M - Source-locale message sources by id
+ * @template D - Slot delimiters of the messages
+ */
+export interface MessageCatalog<
+  M extends Record<string, string>,
+  D extends Delimiters = DefaultDelimiters,
+> {
+  /** Locale every message is written in, and the last fallback */
+  readonly sourceLocale: string;
+  /** Message ids */
+  readonly ids: readonly (keyof M & string)[];
+  /** Locales with at least one message */
+  readonly locales: readonly string[];
+
+  /**
+   * Locales a lookup tries in order: the locale, then its parents (dropping subtags from the
+   * end), then the source locale ("de-AT" -> ["de-AT", "de", "en"]).
+   * @param locale - The requested locale
+   * @returns The fallback chain
+   */
+  fallbacks(locale: string): readonly string[];
+
+  /**
+   * Find the message for a locale, following the fallback chain.
+   * @param id - Message id
+   * @param locale - The requested locale
+   * @returns The template and the locale it was found for
+   * @throws Error for unknown message ids
+   */
+  resolve<K extends keyof M & string>(
+    id: K,
+    locale: string
+  ): { readonly template: Template<M[K], D>; readonly locale: string };
+
+  /**
+   * Get the message template for a locale, following the fallback chain.
+   * @param id - Message id
+   * @param locale - The requested locale
+   * @returns The compiled message
+   * @throws Error for unknown message ids
+   */
+  get<K extends keyof M & string>(id: K, locale: string): Template<M[K], D>;
+
+  /**
+   * Render a message for a locale. The policy locale is the one the message was found for,
+   * so Intl and plural filters follow its language, unless the policy sets one.
+   * @param id - Message id
+   * @param locale - The requested locale
+   * @param params - Values for the slots of the message
+   * @param policy - Optional policy for transforms and custom filters
+   * @returns The rendered message
+   */
+  render<K extends keyof M & string, P extends Record<SlotKeys<M[K], D>, unknown>>(
+    id: K,
+    locale: string,
+    params: ExactParamsFor<M[K], P, D>,
+    policy?: TemplatePolicy
+  ): string;
+
+  /**
+   * Compare every translation with its source-locale message: slots the translation drops
+   * or adds, and filters it uses that the source does not.
+   * @returns ok when no translation differs, and the differences found
+   */
+  check(): { readonly ok: boolean; readonly issues: readonly CatalogIssue[] };
+}
+
 /**
  * Template with some parameters pre-bound, requiring only remaining parameters.
  * Created by the bind() function for partial application scenarios.
  *
  * @template S - The original template source string type
  * @template R - The remaining (unbound) parameter keys
+ * @template D - The slot delimiters the source was compiled with
+ * @template FT - Value types of the custom filters the template is rendered with
  */
-export interface BoundTemplate<S extends string, R extends string> {
+export interface BoundTemplate<
+  S extends string,
+  R extends string,
+  D extends Delimiters = DefaultDelimiters,
+  FT extends FilterTypeMap = NoFilterTypes,
+> {
   /** Original template source string */
   readonly source: S;
+  /** Slot delimiters the source was compiled with */
+  readonly delimiters: D;
   /** Static text chunks between slots */
   readonly chunks: readonly string[];
   /** Parsed slot descriptors */
   readonly slots: readonly SlotDescriptor[];
+  /** Parsed node tree (text, slots and sections) */
+  readonly nodes: readonly TemplateNode[];
 
   /**
    * Render the bound template with only the remaining parameters.
@@ -216,7 +1653,7 @@ export interface BoundTemplate<S extends string, R extends string> {
    * @returns Rendered string
    */
   render<P extends Record<R, unknown>>(
-    params: ExactParamsForKeys<R, P>,
+    params: RemainingParamsFor<S, R, P, D, FT>,
     policy?: TemplatePolicy
   ): string;
 
@@ -227,7 +1664,7 @@ export interface BoundTemplate<S extends string, R extends string> {
    * @returns Template parts with processed values
    */
   toParts<P extends Record<R, unknown>>(
-    params: ExactParamsForKeys<R, P>,
+    params: RemainingParamsFor<S, R, P, D, FT>,
     policy?: TemplatePolicy
   ): TemplateParts;
 
@@ -236,8 +1673,329 @@ export interface BoundTemplate<S extends string, R extends string> {
    * @param params - Object with values for unbound slots only
    * @returns Template parts with raw values (no transforms/filters)
    */
-  toPartsRaw<P extends Record<R, unknown>>(params: ExactParamsForKeys<R, P>): TemplatePartsRaw;
+  toPartsRaw<P extends Record<R, unknown>>(
+    params: RemainingParamsFor<S, R, P, D, FT>
+  ): TemplatePartsRaw;
+
+  /**
+   * Render the bound template, awaiting promise params (bound or given) and filters.
+   * @param params - Object with values (or promises of them) for unbound slots only
+   * @param policy - Optional rendering policy for filters/transforms
+   * @returns Promise of the rendered string
+   */
+  renderAsync<P extends Record<R, unknown>>(
+    params: AsyncRemainingParamsFor<S, R, P, D, FT>,
+    policy?: TemplatePolicy
+  ): Promise<string>;
+
+  /**
+   * Get template parts with processed values, awaiting promise params and filters.
+   * @param params - Object with values (or promises of them) for unbound slots only
+   * @param policy - Optional rendering policy for filters/transforms
+   * @returns Promise of the template parts
+   */
+  toPartsAsync<P extends Record<R, unknown>>(
+    params: AsyncRemainingParamsFor<S, R, P, D, FT>,
+    policy?: TemplatePolicy
+  ): Promise<TemplateParts>;
 
   /** Brand for nominal typing */
   readonly [TEMPLATE_BRAND]: true;
 }
+
+/**
+ * Options for streaming renders (loom.renderStream, loom.pipeTo).
+ */
+export interface StreamOptions {
+  /**
+   * Output is collected into chunks of about this many characters (default 16384).
+   * Collected output is always emitted before rendering waits for a promise.
+   */
+  readonly chunkSize?: number;
+  /** pipeTo only: end (or close) the destination once the template is rendered (default true) */
+  readonly end?: boolean;
+}
+
+/** The parts of a Node.js stream.Writable that pipeTo writes through */
+export interface NodeWritableLike {
+  write(chunk: string): boolean;
+  end(callback?: (error?: Error | null) => void): unknown;
+  once(event: string, listener: (...args: unknown[]) => void): unknown;
+  removeListener(event: string, listener: (...args: unknown[]) => void): unknown;
+  destroy?(error?: Error): unknown;
+}
+
+/** The parts of a WHATWG WritableStream of strings that pipeTo writes through */
+export interface WritableStreamLike {
+  getWriter(): {
+    readonly ready: Promise<unknown>;
+    write(chunk: string): Promise<void>;
+    close(): Promise<void>;
+    abort(reason?: unknown): Promise<void>;
+    releaseLock(): void;
+  };
+}
+
+/** SQL dialects loom.sql writes placeholders and quoted identifiers for */
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite' | 'oracle';
+
+/**
+ * Placeholder styles: `$1, $2` ('numbered'), `?` ('question') or `:name` ('named').
+ */
+export type SqlPlaceholder = 'numbered' | 'question' | 'named';
+
+/**
+ * Options for loom.sql.
+ */
+export interface SqlOptions {
+  /**
+   * Dialect to write for (default 'postgres'): placeholders are `$n` for postgres, `?` for
+   * mysql and sqlite and `:name` for oracle; identifiers are quoted with backticks for mysql
+   * and double quotes otherwise.
+   */
+  readonly dialect?: SqlDialect;
+  /** Placeholder style, instead of the dialect's */
+  readonly placeholder?: SqlPlaceholder;
+}
+
+/**
+ * A parameterised statement: the text with placeholders, and the values to bind to them.
+ */
+export interface SqlQuery {
+  /** Statement text; slot values are never part of it */
+  readonly text: string;
+  /** Values in placeholder order */
+  readonly values: unknown[];
+  /** Values by placeholder name (named placeholders only) */
+  readonly named?: Record<string, unknown>;
+}
+
+/**
+ * Options for createLoom().
+ *
+ * @template F - Custom filters by name
+ * @template D - Default slot delimiters
+ */
+export interface LoomOptions<
+  F extends Record<string, CustomFilterFn> = Record<never, CustomFilterFn>,
+  D extends Delimiters = DefaultDelimiters,
+> {
+  /**
+   * Custom filters, merged over the built-ins. Their names pass the compile-time filter check
+   * and their value parameter types the slots they are the first filter of.
+   */
+  readonly filters?: F;
+  /** Transform function applied to slot values before filtering */
+  readonly transform?: (slot: SlotDescriptor, value: unknown) => unknown;
+  /** Custom string conversion function (defaults to String()) */
+  readonly asString?: (value: unknown) => string;
+  /** Contextual escaping of slot output (see TemplatePolicy.escape) */
+  readonly escape?: 'html' | 'none';
+  /** Secret slot names and patterns (see TemplatePolicy.secrets) */
+  readonly secrets?: readonly SecretPattern[];
+  /** Locale of the Intl filters (see TemplatePolicy.locale) */
+  readonly locale?: string | readonly string[];
+  /** Time zone of the date filters (see TemplatePolicy.timeZone) */
+  readonly timeZone?: string;
+  /** Slot delimiters compile() and parse() use when none are given (default ['{', '}']) */
+  readonly delimiters?: D;
+}
+
+/**
+ * A loomstr instance created by createLoom(): the loom API with a configured policy.
+ * Templates it compiles render with that policy by default, and its helpers layer the
+ * policy passed to a call over it.
+ *
+ * @template FT - Value types of the configured custom filters
+ * @template DD - Default slot delimiters
+ */
+export interface Loom<
+  FT extends FilterTypeMap = NoFilterTypes,
+  DD extends Delimiters = DefaultDelimiters,
+> {
+  /** The configured policy: custom filters, transform and string conversion */
+  readonly policy: TemplatePolicy;
+  /** Slot delimiters used when compile() and parse() are given none */
+  readonly delimiters: DD;
+
+  /**
+   * Compile a template string; its types know the custom filters.
+   * @param source - Template string with {slot} patterns
+   * @param options - Optional compile options (delimiters other than the instance's, codegen,
+   * secret slots)
+   * @returns Compiled template rendering with the configured policy by default
+   * @throws LoomParseError if the source is malformed or a typed or case filter gets bad arguments
+   */
+  compile<S extends string, const D extends Delimiters = DD>(
+    source: S & CheckTemplate<S, keyof FT & string, D>,
+    options?: Pick<CompileOptions<D>, 'delimiters' | 'codegen' | 'secrets'>
+  ): Template<S, D, FT>;
+
+  /**
+   * Compile a template string into a render function with the configured filters pre-bound.
+   * @param source - Template string with {slot} patterns
+   * @param options - Optional compile options (delimiters other than the instance's, codegen,
+   * secret slots)
+   * @param policy - Optional policy layered over the configured one
+   * @returns Render function taking the template params
+   * @throws LoomParseError if the source is malformed or a typed or case filter gets bad arguments
+   */
+  compileFn<S extends string, const D extends Delimiters = DD>(
+    source: S & CheckTemplate<S, keyof FT & string, D>,
+    options?: Pick<CompileOptions<D>, 'delimiters' | 'codegen' | 'secrets'>,
+    policy?: TemplatePolicy
+  ): RenderFunction<S, D, FT>;
+
+  /**
+   * Parse a template source, checking typed arguments of the configured filters.
+   * @param source - Template string
+   * @param options - Optional parse options (delimiters default to the instance's)
+   * @returns Chunks, slots, nodes and diagnostics
+   */
+  parse(source: string, options?: ParseOptions): ParseResult;
+
+  /**
+   * Concatenate two templates into a template rendering with the configured policy, or the
+   * templates' own policies layered (see concat).
+   * @throws Error if the templates were compiled with different delimiters or their policies
+   * conflict
+   */
+  concat<A extends string, B extends string, D extends Delimiters = DD>(
+    a: Template<A, D, FT>,
+    b: Template<B, D, FT>
+  ): Template<`${A}${B}`, D, FT>;
+
+  /** Safely render a template with the configured policy under the given one */
+  tryRender<
+    S extends string,
+    D extends Delimiters,
+    P extends Record<SlotKeys<S, D>, unknown>,
+    TT extends FilterTypeMap = FT,
+  >(
+    t: Template<S, D, TT>,
+    params: ExactParamsFor<S, P, D, TT>,
+    policy?: TemplatePolicy
+  ): { ok: true; value: string } | { ok: false; error: Error };
+
+  /** Format a template to a sink with the configured policy under the given one */
+  formatTo<
+    S extends string,
+    D extends Delimiters,
+    P extends Record<SlotKeys<S, D>, unknown>,
+    TT extends FilterTypeMap = FT,
+  >(
+    t: Template<S, D, TT>,
+    params: ExactParamsFor<S, P, D, TT>,
+    policy: TemplatePolicy | undefined,
+    sink: { text(chunk: string): void; value(v: string): void }
+  ): void;
+
+  /**
+   * Create a reusable render function with the configured policy under the given one,
+   * resolved once (see loom.renderer)
+   */
+  renderer<S extends string, D extends Delimiters, TT extends FilterTypeMap = FT>(
+    t: Template<S, D, TT>,
+    policy?: TemplatePolicy
+  ): RenderFunction<S, D, TT>;
+
+  /** Render a template as a stream of chunks with the configured policy under the given one */
+  renderStream<
+    S extends string,
+    D extends Delimiters,
+    P extends Record<SlotKeys<S, D>, unknown>,
+    TT extends FilterTypeMap = FT,
+  >(
+    t: Template<S, D, TT>,
+    params: AsyncParamsFor<S, P, D, TT>,
+    policy?: TemplatePolicy,
+    options?: StreamOptions
+  ): AsyncIterable<string>;
+
+  /** Render a template into a writable stream with the configured policy under the given one */
+  pipeTo<
+    S extends string,
+    D extends Delimiters,
+    P extends Record<SlotKeys<S, D>, unknown>,
+    TT extends FilterTypeMap = FT,
+  >(
+    t: Template<S, D, TT>,
+    params: AsyncParamsFor<S, P, D, TT>,
+    destination: NodeWritableLike | WritableStreamLike,
+    policy?: TemplatePolicy,
+    options?: StreamOptions
+  ): Promise<void>;
+
+  /** Render a template into a parameterised SQL statement with the configured policy */
+  sql<
+    S extends string,
+    D extends Delimiters,
+    P extends Record<SlotKeys<S, D>, unknown>,
+    TT extends FilterTypeMap = FT,
+  >(
+    t: Template<S, D, TT>,
+    params: ExactParamsFor<S, P, D, TT>,
+    policy?: TemplatePolicy,
+    options?: SqlOptions
+  ): SqlQuery;
+
+  /** Render a template with its secret slots masked, with the configured policy */
+  renderRedacted<
+    S extends string,
+    D extends Delimiters,
+    P extends Record<SlotKeys<S, D>, unknown>,
+    TT extends FilterTypeMap = FT,
+  >(
+    t: Template<S, D, TT>,
+    params: ExactParamsFor<S, P, D, TT>,
+    policy?: TemplatePolicy,
+    options?: RedactOptions
+  ): string;
+
+  /** Convert a template to parts with its secret slots masked, with the configured policy */
+  toPartsRedacted<
+    S extends string,
+    D extends Delimiters,
+    P extends Record<SlotKeys<S, D>, unknown>,
+    TT extends FilterTypeMap = FT,
+  >(
+    t: Template<S, D, TT>,
+    params: ExactParamsFor<S, P, D, TT>,
+    policy?: TemplatePolicy,
+    options?: RedactOptions
+  ): TemplateParts;
+
+  /** Bind partial data to a template; the bound template defaults to the configured policy */
+  bind<
+    S extends string,
+    D extends Delimiters,
+    PB extends Partial<Record<SlotKeys<S, D> | OptionalSlotKeys<S, D>, unknown>>,
+    R extends Exclude<SlotKeys<S, D>, keyof PB> = Exclude<SlotKeys<S, D>, keyof PB>,
+    TT extends FilterTypeMap = FT,
+  >(
+    t: Template<S, D, TT>,
+    bound: ExactParamsForKeys<
+      Extract<keyof PB, string>,
+      PB & Record<Extract<keyof PB, string>, unknown>
+    >,
+    defaultPolicy?: TemplatePolicy
+  ): BoundTemplate<S, R, D, TT>;
+
+  /** Get all unique slot names from a template */
+  slotNames(t: Template<string, Delimiters>): readonly string[];
+
+  /** Check if a template contains a specific slot name */
+  hasSlot(t: Template<string, Delimiters>, name: string): boolean;
+
+  /** Find keys missing from provided parameters */
+  missingKeys(t: Template<string, Delimiters>, params: Record<string, unknown>): readonly string[];
+
+  /** Find extra keys not used by the template */
+  extraKeys(t: Template<string, Delimiters>, params: Record<string, unknown>): readonly string[];
+
+  /** Validate parameters against template requirements */
+  validate(
+    t: Template<string, Delimiters>,
+    params: Record<string, unknown>
+  ): { ok: boolean; missing: readonly string[]; extra: readonly string[] };
+}
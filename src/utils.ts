@@ -5,19 +5,27 @@
 
 import type {
   Template,
+  Delimiters,
   SlotKeys,
+  OptionalSlotKeys,
   ExactParamsFor,
   ExactParamsForKeys,
   TemplatePolicy,
   BoundTemplate,
+  RenderFunction,
+  FilterTypeMap,
+  NoFilterTypes,
 } from './types';
 import { TEMPLATE_BRAND } from './types';
-import { resolvePolicy } from './filters';
-import { CompiledTemplate } from './template';
+import { mergePolicy, resolvePolicy } from './filters';
+import { CompiledTemplate, MISSING, lookupSlot, renderFunction } from './template';
+import { checkPolicyFilters } from './codegen';
+import { stringifier } from './escape';
 
 /**
  * List slot names in order, deduplicated by first occurrence.
  * Extracts all unique slot names from a template for inspection and validation.
+ * Slots reading {#each} aliases or loop variables are not params and are left out.
  *
  * @param t - The template to extract slot names from
  * @returns Readonly array of unique slot names in order of first appearance
@@ -28,11 +36,13 @@ import { CompiledTemplate } from './template';
  * slotNames(tmpl); // ["name", "count"]
  * ```
  */
-export function slotNames<S extends string>(t: Template<S>): readonly string[] {
+export function slotNames<S extends string, D extends Delimiters>(
+  t: Template<S, D>
+): readonly string[] {
   const seen = new Set<string>();
   const out: string[] = [];
   for (const s of t.slots)
-    if (!seen.has(s.name)) {
+    if (!s.local && !seen.has(s.name)) {
       seen.add(s.name);
       out.push(s.name);
     }
@@ -54,13 +64,18 @@ export function slotNames<S extends string>(t: Template<S>): readonly string[] {
  * hasSlot(tmpl, "age"); // false
  * ```
  */
-export function hasSlot<S extends string>(t: Template<S>, name: string): boolean {
-  return t.slots.some(s => s.name === name);
+export function hasSlot<S extends string, D extends Delimiters>(
+  t: Template<S, D>,
+  name: string
+): boolean {
+  return t.slots.some(s => !s.local && s.name === name);
 }
 
 /**
  * Find keys missing from provided parameters (runtime check).
  * Identifies which required slots are not present in the data object.
+ * Dotted slots are followed into nested objects and reported by their full name.
+ * Optional slots ({name?}, {name ?? "default"}) are never reported.
  *
  * @param t - The template requiring slots
  * @param params - The parameter object to check
@@ -71,21 +86,33 @@ export function hasSlot<S extends string>(t: Template<S>, name: string): boolean
  * const tmpl = loom.compile("Hello {name}, you have {count} messages");
  * missingKeys(tmpl, { name: "Alice" }); // ["count"]
  * missingKeys(tmpl, { name: "Alice", count: 5 }); // []
+ *
+ * const nested = loom.compile("{user.address.city}");
+ * missingKeys(nested, { user: {} }); // ["user.address.city"]
  * ```
  */
-export function missingKeys<S extends string, P extends Record<string, unknown>>(
-  t: Template<S>,
+export function missingKeys<
+  S extends string,
+  D extends Delimiters,
+  P extends Record<string, unknown>,
+>(
+  t: Template<S, D>,
   params: P
 ): readonly string[] {
   const missing: string[] = [];
-  const set = new Set(Object.keys(params));
-  for (const s of slotNames(t)) if (!set.has(s)) missing.push(s);
+  const seen = new Set<string>();
+  for (const s of t.slots) {
+    if (s.local || s.optional || seen.has(s.name)) continue;
+    seen.add(s.name);
+    if (lookupSlot(params, s) === MISSING) missing.push(s.name);
+  }
   return Object.freeze(missing);
 }
 
 /**
  * Find extra keys present that are not used by the template (runtime check).
  * Identifies unused properties in the data object that don't correspond to slots.
+ * Only top-level keys are checked; nested objects may carry additional fields.
  *
  * @param t - The template with defined slots
  * @param params - The parameter object to check
@@ -98,11 +125,15 @@ export function missingKeys<S extends string, P extends Record<string, unknown>>
  * extraKeys(tmpl, { name: "Alice" }); // []
  * ```
  */
-export function extraKeys<S extends string, P extends Record<string, unknown>>(
-  t: Template<S>,
+export function extraKeys<
+  S extends string,
+  D extends Delimiters,
+  P extends Record<string, unknown>,
+>(
+  t: Template<S, D>,
   params: P
 ): readonly string[] {
-  const used = new Set(slotNames(t));
+  const used = new Set(t.slots.filter(s => !s.local).map(s => (s.path ? s.path[0]! : s.name)));
   const extra: string[] = [];
   for (const k of Object.keys(params)) if (!used.has(k)) extra.push(k);
   return Object.freeze(extra);
@@ -125,8 +156,12 @@ export function extraKeys<S extends string, P extends Record<string, unknown>>(
  * // { ok: true, missing: [], extra: [] }
  * ```
  */
-export function validate<S extends string, P extends Record<string, unknown>>(
-  t: Template<S>,
+export function validate<
+  S extends string,
+  D extends Delimiters,
+  P extends Record<string, unknown>,
+>(
+  t: Template<S, D>,
   params: P
 ): { ok: boolean; missing: readonly string[]; extra: readonly string[] } {
   const miss = missingKeys(t, params);
@@ -154,9 +189,14 @@ export function validate<S extends string, P extends Record<string, unknown>>(
  * }
  * ```
  */
-export function tryRender<S extends string, P extends Record<SlotKeys<S>, unknown>>(
-  t: Template<S>,
-  params: ExactParamsFor<S, P>,
+export function tryRender<
+  S extends string,
+  D extends Delimiters,
+  P extends Record<SlotKeys<S, D>, unknown>,
+  FT extends FilterTypeMap = NoFilterTypes,
+>(
+  t: Template<S, D, FT>,
+  params: ExactParamsFor<S, P, D, FT>,
   policy?: TemplatePolicy
 ): { ok: true; value: string } | { ok: false; error: Error } {
   try {
@@ -187,17 +227,23 @@ export function tryRender<S extends string, P extends Record<SlotKeys<S>, unknow
  * // output: ["TEXT:Hello ", "VALUE:world", "TEXT:!"]
  * ```
  */
-export function formatTo<S extends string, P extends Record<SlotKeys<S>, unknown>>(
-  t: Template<S>,
-  params: ExactParamsFor<S, P>,
+export function formatTo<
+  S extends string,
+  D extends Delimiters,
+  P extends Record<SlotKeys<S, D>, unknown>,
+  FT extends FilterTypeMap = NoFilterTypes,
+>(
+  t: Template<S, D, FT>,
+  params: ExactParamsFor<S, P, D, FT>,
   policy: TemplatePolicy | undefined,
   sink: { text(chunk: string): void; value(v: string): void }
 ): void {
-  const rp = resolvePolicy(policy);
+  const rp = resolvePolicy(mergePolicy(t.policy, policy));
   const parts = t.toParts(params, rp);
+  const str = stringifier(t.nodes, rp);
   sink.text(parts.chunks[0] ?? '');
   for (let i = 0; i < parts.slots.length; i++) {
-    sink.value(rp.asString(parts.values[i]));
+    sink.value(str(parts.slots[i]!, parts.values[i]));
     sink.text(parts.chunks[i + 1] ?? '');
   }
 }
@@ -220,20 +266,24 @@ export function formatTo<S extends string, P extends Record<SlotKeys<S>, unknown
  */
 export function bind<
   S extends string,
-  PB extends Partial<Record<SlotKeys<S>, unknown>>,
-  R extends Exclude<SlotKeys<S>, keyof PB> = Exclude<SlotKeys<S>, keyof PB>,
+  D extends Delimiters,
+  PB extends Partial<Record<SlotKeys<S, D> | OptionalSlotKeys<S, D>, unknown>>,
+  R extends Exclude<SlotKeys<S, D>, keyof PB> = Exclude<SlotKeys<S, D>, keyof PB>,
+  FT extends FilterTypeMap = NoFilterTypes,
 >(
-  t: Template<S>,
+  t: Template<S, D, FT>,
   bound: ExactParamsForKeys<
     Extract<keyof PB, string>,
     PB & Record<Extract<keyof PB, string>, unknown>
   >,
   defaultPolicy?: TemplatePolicy
-): BoundTemplate<S, R> {
-  const base = t as any as CompiledTemplate<S>;
+): BoundTemplate<S, R, D, FT> {
+  const base = t as any as CompiledTemplate<S, D, FT>;
   const source = t.source,
+    delimiters = t.delimiters,
     chunks = t.chunks,
-    slots = t.slots;
+    slots = t.slots,
+    nodes = t.nodes;
 
   function mergedParams(rest: Record<string, unknown>): Record<string, unknown> {
     return { ...bound, ...rest };
@@ -241,32 +291,40 @@ export function bind<
 
   return {
     source,
+    delimiters,
     chunks,
     slots,
+    nodes,
     [TEMPLATE_BRAND]: true as const,
 
     render(params, policy) {
-      const rp = resolvePolicy(policy ?? defaultPolicy);
-      const values = base['evaluate'](mergedParams(params as any), rp);
-      let out = chunks[0] ?? '';
-      for (let i = 0; i < slots.length; i++) {
-        out += rp.asString(values[i]);
-        out += chunks[i + 1] ?? '';
-      }
-      return out;
+      const rp = resolvePolicy(mergePolicy(t.policy, policy ?? defaultPolicy));
+      return base['renderWith'](mergedParams(params as any), rp);
     },
 
     toParts(params, policy) {
-      const rp = resolvePolicy(policy ?? defaultPolicy);
-      const values = base['evaluate'](mergedParams(params as any), rp);
-      return { chunks: chunks.slice(), slots: slots.slice(), values };
+      const rp = resolvePolicy(mergePolicy(t.policy, policy ?? defaultPolicy));
+      return base['partsWith'](mergedParams(params as any), rp);
     },
 
     toPartsRaw(params) {
       const rec = mergedParams(params as any);
-      const values = slots.map(s => rec[s.name]);
+      const values = slots.map(s => {
+        const v = s.local ? MISSING : lookupSlot(rec, s);
+        return v === MISSING ? undefined : v;
+      });
       return { chunks: chunks.slice(), slots: slots.slice(), values };
     },
+
+    renderAsync(params, policy) {
+      const rp = resolvePolicy(mergePolicy(t.policy, policy ?? defaultPolicy));
+      return base['renderAsyncWith'](mergedParams(params as any), rp);
+    },
+
+    toPartsAsync(params, policy) {
+      const rp = resolvePolicy(mergePolicy(t.policy, policy ?? defaultPolicy));
+      return base['partsAsyncWith'](mergedParams(params as any), rp);
+    },
   };
 }
 
@@ -286,9 +344,40 @@ export function bind<
  * wrappedTmpl.render({ name: "world" }); // Uses the default policy
  * ```
  */
-export function withDefaultPolicy<S extends string>(
-  t: Template<S>,
+export function withDefaultPolicy<S extends string, D extends Delimiters>(
+  t: Template<S, D>,
   defaultPolicy: TemplatePolicy
-): BoundTemplate<S, never> {
-  return bind<S, {}>(t, {} as any, defaultPolicy) as BoundTemplate<S, never>;
+): BoundTemplate<S, never, D> {
+  return bind<S, D, {}>(t, {} as any, defaultPolicy) as BoundTemplate<S, never, D>;
+}
+
+/**
+ * Create a reusable render function for a template and policy.
+ * The policy is merged over the template's default policy and resolved once, every filter the
+ * template uses is looked up (and its typed arguments checked) up front, and the function is
+ * generated with those filters bound, so repeated renders allocate little beyond the output.
+ * Rendering the same template with the same policy object reuses the same function.
+ *
+ * @param t - The template to render
+ * @param policy - Optional policy for transforms and custom filters
+ * @returns Render function taking the template params
+ * @throws Error if the template uses a filter the policy lacks or gives a typed or case filter
+ * bad arguments, even in a section that might not render
+ *
+ * @example
+ * ```typescript
+ * const tmpl = loom.compile("[{level|upper}] {msg}");
+ * const line = renderer(tmpl, { asString: String });
+ * line({ level: "info", msg: "ready" }); // "[INFO] ready"
+ * ```
+ */
+export function renderer<S extends string, D extends Delimiters, FT extends FilterTypeMap>(
+  t: Template<S, D, FT>,
+  policy?: TemplatePolicy
+): RenderFunction<S, D, FT> {
+  if (!(t instanceof CompiledTemplate)) {
+    throw new TypeError('renderer: expected a compiled template');
+  }
+  checkPolicyFilters(t.slots, resolvePolicy(mergePolicy(t.policy, policy)));
+  return renderFunction(t as CompiledTemplate<S, D, FT>, policy);
 }
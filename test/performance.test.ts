@@ -38,4 +38,58 @@ const endParts = performance.now();
 console.log(`loom:toParts x50k took ${(endParts - startParts).toFixed(2)} ms`);
 assert.equal(partsLen % 4, 0);
 
+// codegen: the same template through a generated function and through closures (CSP)
+const generated = loom.compile(T.source, { codegen: true });
+const closures = loom.compile(T.source, { codegen: 'closures' });
+const fn = loom.compileFn(T.source, {}, policy);
+assert.equal(generated.render(params, policy), T.render(params, policy));
+assert.equal(closures.render(params, policy), T.render(params, policy));
+assert.equal(fn(params), T.render(params, policy));
+
+/** Time N renders of one variant */
+function bench(label: string, render: () => string): number {
+  const start = performance.now();
+  let out = '';
+  for (let i = 0; i < N; i++) {
+    params.ctx.i = i;
+    out = render();
+  }
+  const ms = performance.now() - start;
+  assert.ok(out.endsWith(`"i":${N - 1}}`));
+  console.log(`${label} x50k took ${ms.toFixed(2)} ms`);
+  return ms;
+}
+
+const interpreted = bench('loom:render (interpreter)', () => T.render(params, policy));
+const codegen = bench('loom:render (codegen)', () => generated.render(params, policy));
+bench('loom:render (closures)', () => closures.render(params, policy));
+bench('loom:compileFn', () => fn(params));
+const pre = loom.renderer(T, policy);
+bench('loom:renderer', () => pre(params));
+console.log(`codegen speedup: ${(interpreted / codegen).toFixed(2)}x`);
+
+// a policy written inline is a new object every render: codegen must not rebuild per call
+const inline = bench('loom:render (codegen, inline policy)', () =>
+  generated.render(params, { ...policy })
+);
+assert.ok(inline < interpreted * 3, `inline policies took ${inline.toFixed(2)} ms`);
+
+// sections: a loop with a condition per row
+const rows = Array.from({ length: 20 }, (_, i) => ({ id: i, name: `row${i}`, hot: i % 3 === 0 }));
+const table = '{#each rows as row}<tr>{row.id}{row.name|upper}{#if row.hot}!{/if}</tr>{/each}';
+const tableT = loom.compile(table);
+const tableFn = loom.compileFn(table);
+const tableClosures = loom.compileFn(table, { codegen: 'closures' });
+assert.equal(tableFn({ rows }), tableT.render({ rows }));
+assert.equal(tableClosures({ rows }), tableT.render({ rows }));
+for (const [label, render] of [
+  ['interpreter', () => tableT.render({ rows })],
+  ['codegen', () => tableFn({ rows })],
+  ['closures', () => tableClosures({ rows })],
+] as const) {
+  const start = performance.now();
+  for (let i = 0; i < N / 10; i++) render();
+  console.log(`sections (${label}) x5k took ${(performance.now() - start).toFixed(2)} ms`);
+}
+
 console.log('performance.test.ts passed ✅');
@@ -0,0 +1,146 @@
+import { strict as assert } from 'node:assert';
+import * as path from 'node:path';
+import { performance } from 'node:perf_hooks';
+import ts from 'typescript';
+import loom, { LoomParseError } from '../src/loomstr';
+
+/*
+ * Type-level parser at scale.
+ * Each case is a generated TypeScript module that compiles a large template and checks the
+ * types loomstr infers for it. The module is type-checked in memory with the compiler API;
+ * it must produce no diagnostics, and the instantiations it costs beyond a one-row baseline
+ * must stay within budget.
+ */
+
+const ROOT = path.resolve(__dirname, '..');
+const FIXTURE = path.join(ROOT, 'test', '__types_fixture__.ts');
+
+const config = ts.readConfigFile(path.join(ROOT, 'tsconfig.json'), ts.sys.readFile);
+const { options } = ts.parseJsonConfigFileContent(config.config, ts.sys, ROOT);
+
+/** Type-check a fixture module; returns its diagnostics, instantiation count and time */
+function check(source: string) {
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (name, language, ...rest) =>
+    path.resolve(name) === FIXTURE
+      ? ts.createSourceFile(name, source, language)
+      : getSourceFile.call(host, name, language, ...rest);
+  const fileExists = host.fileExists;
+  host.fileExists = name => path.resolve(name) === FIXTURE || fileExists.call(host, name);
+
+  const start = performance.now();
+  const program = ts.createProgram([FIXTURE], { ...options, noEmit: true }, host);
+  const diagnostics = ts.getPreEmitDiagnostics(program).map(d =>
+    ts.flattenDiagnosticMessageText(d.messageText, '\n')
+  );
+  return {
+    diagnostics,
+    instantiations: program.getInstantiationCount(),
+    ms: performance.now() - start,
+  };
+}
+
+/** One report row reading four slots below r<i> */
+const row = (i: number) =>
+  `<tr><td>{r${i}.label}</td><td>{r${i}.total|fixed#2}</td>` +
+  `{#if r${i}.note}<td>{r${i}.note|trim}</td>{/if}</tr>\n`;
+
+/** A report of n rows: about 100 characters and 6 tags per row */
+const report = (n: number) =>
+  `<h1>{title|upper}</h1>\n` + Array.from({ length: n }, (_, i) => row(i)).join('');
+
+/** Sections nested depth levels deep: {#each} loops around a {#with} and an {#if} */
+const nested = (depth: number) => {
+  let body = '{#with a.deep}{#if leaf}{leaf|fixed}{/if}{/with}';
+  for (let i = depth - 1; i >= 0; i--) body = `{#each ${i ? 'a.l' : 'l0'} as a}${body}{/each}`;
+  return body;
+};
+
+/** Params for nested(depth) with the given leaf value */
+const nestedParams = (depth: number, leaf: string) => {
+  let value = `{ deep: { leaf: ${leaf} } }`;
+  for (let i = 1; i < depth; i++) value = `{ l: [${value}] }`;
+  return `{ l0: [${value}] }`;
+};
+
+/**
+ * A fixture compiling a report of n rows and sections nested depth levels deep,
+ * checking their keys, param types and errors
+ */
+function fixture(n: number, depth: number) {
+  const keys = ['title', ...Array.from({ length: n }, (_, i) => `r${i}`)];
+  const params = keys
+    .slice(1)
+    .map(k => `${k}: { label: '${k}', total: 1, note: ' n ' }`)
+    .join(',\n  ');
+  return `import loom, { type SlotKeys, type TemplateSyntaxError } from '../src/loomstr';
+
+type Equal<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+const source = ${JSON.stringify(report(n))};
+const broken = ${JSON.stringify(`${report(n)}{#each items as item}`)};
+
+const keysExact: Equal<SlotKeys<typeof source>, ${keys.map(k => `'${k}'`).join(' | ')}> = true;
+const valid: Equal<TemplateSyntaxError<typeof source>, never> = true;
+const unclosed: Equal<TemplateSyntaxError<typeof broken>, 'UNCLOSED_BLOCK'> = true;
+
+const t = loom.compile(source);
+const deep = loom.compile(${JSON.stringify(nested(depth))});
+t.render({
+  title: 'Report',
+  ${params},
+});
+// @ts-expect-error the last row is still typed
+t.render({ title: 'Report', r${n - 1}: { label: 'x', total: 'not a number' } });
+// @ts-expect-error errors after hundreds of tags are still found
+loom.compile(broken);
+
+deep.render(${nestedParams(depth, '1')});
+// @ts-expect-error the innermost slot is typed
+deep.render(${nestedParams(depth, "'x'")});
+
+export { keysExact, valid, unclosed };
+`;
+}
+
+/* ================================================================
+ * 1) the runtime parser agrees on the generated templates
+ * ================================================================ */
+
+{
+  const parsed = loom.parse(report(250));
+  assert.equal(parsed.slots.length, 1 + 250 * 4);
+  assert.equal(new Set(parsed.slots.map(s => s.path?.[0] ?? s.name)).size, 251);
+  assert.throws(
+    () => loom.parse(`${report(250)}{#each items as item}`),
+    e => e instanceof LoomParseError && e.code === 'UNCLOSED_BLOCK'
+  );
+
+  const deep = loom.parse(nested(12));
+  assert.equal(deep.slots.filter(s => !s.local).map(s => s.name).join(), 'l0');
+}
+
+/* ================================================================
+ * 2) exact types for a 250-row report and 12 nested sections within budget
+ * ================================================================ */
+
+{
+  const baseline = check(fixture(1, 1));
+  assert.deepEqual(baseline.diagnostics, []);
+
+  const ROWS = 250;
+  assert.ok(report(ROWS).length > 25_000);
+  const large = check(fixture(ROWS, 12));
+  assert.deepEqual(large.diagnostics, []);
+
+  const cost = large.instantiations - baseline.instantiations;
+  console.log(
+    `types: ${ROWS} rows (${ROWS * 6 + 1} tags) cost ${cost} instantiations, ` +
+      `${(large.ms - baseline.ms).toFixed(0)} ms over baseline`
+  );
+  assert.ok(cost < 1_500_000, `instantiation budget exceeded: ${cost}`);
+  assert.ok(large.ms - baseline.ms < 60_000, 'check time budget exceeded');
+}
+
+console.log('types.test.ts passed ✅');
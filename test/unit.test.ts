@@ -1,5 +1,20 @@
 import { strict as assert } from 'node:assert';
-import loom, { type TemplatePolicy } from '../src/loomstr';
+import { Writable } from 'node:stream';
+import loom, {
+  type BuiltinFilterName,
+  type CheckFilters,
+  type CheckTemplate,
+  type LoomError,
+  LoomParseError,
+  type OptionalSlotKeys,
+  type ParamsShape,
+  SafeString,
+  type SlotKeys,
+  SqlIdentifier,
+  type TemplatePolicy,
+  type TemplateSyntaxError,
+  type UnknownFilters,
+} from '../src/loomstr';
 
 /** Helper to build a sink for formatTo */
 function makeSink() {
@@ -20,6 +35,9 @@ function makeSink() {
   };
 }
 
+/** Async checks, awaited before the suite reports success */
+const pending: Promise<void>[] = [];
+
 /* ================================================================
  * 1) compile + render + built-in filters
  * ================================================================ */
@@ -90,8 +108,9 @@ function makeSink() {
   const nullResult = nullTemplate.render({ obj: {} }, policy);
   assert.equal(nullResult, 'missing= fallback=unknown');
 
-  // Test error on empty path
-  const emptyPathTemplate = loom.compile('bad={obj|path}');
+  // Test error on empty path (typed arguments are checked at compile time)
+  assert.throws(() => loom.compile('bad={obj|path}'), /path: missing argument 1 \(string\)/);
+  const emptyPathTemplate = loom.compile('bad={obj|path#""}');
   assert.throws(
     () => emptyPathTemplate.render({ obj: {} }, policy),
     /path: missing property path argument/
@@ -175,6 +194,7 @@ function makeSink() {
 
   const mapNotArray = loom.compile('bad={notarray|map#item => $item$}');
   assert.throws(
+    // @ts-expect-error map slots are typed as arrays
     () => mapNotArray.render({ notarray: 'string' }, policy),
     /map: value must be an array/
   );
@@ -182,6 +202,7 @@ function makeSink() {
   // Test join error cases
   const joinNotArray = loom.compile('bad={notarray|join}');
   assert.throws(
+    // @ts-expect-error join slots are typed as arrays
     () => joinNotArray.render({ notarray: 'string' }, policy),
     /join: value must be an array/
   );
@@ -191,23 +212,15 @@ function makeSink() {
   const joinResult = simpleJoin.render({ numbers: [1, 2, 3, 4] }, policy);
   assert.equal(joinResult, 'nums=1-2-3-4');
 
-  // Test slice error cases
-  const sliceNoStart = loom.compile('bad={text|slice}');
-  assert.throws(
-    () => sliceNoStart.render({ text: 'hello' }, policy),
-    /slice: missing start index argument/
-  );
-
-  const sliceInvalidStart = loom.compile('bad={text|slice#abc}');
+  // Test slice error cases (reported when compiling)
+  assert.throws(() => loom.compile('bad={text|slice}'), /slice: missing argument 1 \(integer\)/);
   assert.throws(
-    () => sliceInvalidStart.render({ text: 'hello' }, policy),
-    /slice: invalid start index "abc"/
+    () => loom.compile('bad={text|slice#abc}'),
+    /slice: argument 1 must be an integer, got "abc"/
   );
-
-  const sliceInvalidEnd = loom.compile('bad={text|slice#1,xyz}');
   assert.throws(
-    () => sliceInvalidEnd.render({ text: 'hello' }, policy),
-    /slice: invalid end index "xyz"/
+    () => loom.compile('bad={text|slice#1,xyz}'),
+    /slice: argument 2 must be an integer, got "xyz"/
   );
 }
 
@@ -245,7 +258,8 @@ function makeSink() {
   assert.deepEqual(customSlot.filters!.map(f => f.name), ['trim', 'slice', 'wrap']);
   assert.equal(customSlot.filter, 'trim');
   assert.equal(customSlot.args.length, 0);
-  assert.deepEqual(customSlot.filters![1].args, ['0', '3']);
+  assert.deepEqual(customSlot.filters![1].args, [0, 3]);
+  assert.deepEqual(customSlot.filters![1].rawArgs, ['0', '3']);
 
   const pathUpper = loom.compile('title={items|path#0.title|upper}');
   const titleOut = pathUpper.render({ items: [{ title: 'widget' }] }, policy);
@@ -258,6 +272,7 @@ function makeSink() {
   assert.equal(pathSlot.filter, 'path');
   assert.deepEqual(pathSlot.args, ['0.title']);
 
+  // @ts-expect-error unknown filters are reported by the type checker too
   const badChain = loom.compile('oops={value|upper|missing}');
   assert.throws(
     () => badChain.render({ value: 'x' }, policy),
@@ -297,6 +312,7 @@ function makeSink() {
   );
 
   // unknown filter
+  // @ts-expect-error unknown filter name
   const U = loom.compile('x={x|nope}');
   assert.throws(() => U.render({ x: 1 }, { asString: String }), /Unknown filter "nope"/);
 }
@@ -343,4 +359,1997 @@ function makeSink() {
   }
 }
 
-console.log('unit.test.ts passed ✅');
+/* ================================================================
+ * 7) source positions + LoomParseError
+ * ================================================================ */
+
+{
+  const T = loom.compile('Dear {name},\n  total={total|fixed#2|pad#8,"."}');
+  const [name, total] = T.slots;
+  assert.deepEqual(name.range!.start, { offset: 5, line: 1, column: 6 });
+  assert.deepEqual(name.range!.end, { offset: 11, line: 1, column: 12 });
+  assert.deepEqual(name.nameRange!.start, { offset: 6, line: 1, column: 7 });
+
+  assert.equal(total.range!.start.line, 2);
+  assert.equal(total.range!.start.column, 9);
+  assert.equal(total.nameRange!.start.column, 10);
+  const [fixed, pad] = total.filters!;
+  assert.equal(fixed.range!.start.column, 16);
+  assert.equal(fixed.range!.end.column, 23);
+  assert.equal(pad.argRanges!.length, 2);
+  assert.equal(pad.argRanges![0].start.column, 28);
+  assert.equal(pad.argRanges![1].start.column, 30);
+  assert.equal(pad.argRanges![1].end.column, 33); // quotes included
+
+  const parseError = (source: string): LoomParseError => {
+    try {
+      loom.compile(source);
+    } catch (e) {
+      assert.ok(e instanceof LoomParseError);
+      return e;
+    }
+    assert.fail(`expected parse error for ${JSON.stringify(source)}`);
+  };
+
+  const badFilter = parseError('line one\nHello {name|}\nline three');
+  assert.equal(badFilter.code, 'INVALID_FILTER_NAME');
+  assert.deepEqual(badFilter.range.start, { offset: 21, line: 2, column: 13 });
+  assert.match(badFilter.message, /missing\/invalid filter in \{name\|\} at line 2, column 13/);
+  assert.equal(
+    badFilter.frame,
+    ['  1 | line one', '> 2 | Hello {name|}', '    |             ^', '  3 | line three'].join('\n')
+  );
+
+  assert.equal(parseError('{}').code, 'INVALID_SLOT_NAME');
+  assert.equal(parseError('{a#1}').code, 'ARGS_WITHOUT_FILTER');
+  assert.equal(parseError('x {a {b}').code, 'NESTED_OPEN_BRACE');
+
+  const trailing = parseError('{a b}');
+  assert.equal(trailing.code, 'UNEXPECTED_TRAILING_CONTENT');
+  assert.equal(trailing.frame.split('\n')[1], '    |    ^');
+
+  const unmatched = parseError('ok\r\nabc {abc');
+  assert.equal(unmatched.code, 'UNMATCHED_OPEN_BRACE');
+  assert.deepEqual(unmatched.range.start, { offset: 8, line: 2, column: 5 });
+}
+
+/* ================================================================
+ * 8) error-recovering parse
+ * ================================================================ */
+
+{
+  const src = 'a={a} b={b|} c={c#1} d={d|upper} e={e {f} g={1x} h={h';
+  const result = loom.parse(src, { recover: true });
+  assert.deepEqual(result.slots.map(s => s.name), ['a', 'd', 'f']);
+  assert.deepEqual(result.chunks, ['a=', ' b= c= d=', ' e=', ' g= h=']);
+  assert.deepEqual(
+    result.diagnostics.map(d => d.code),
+    [
+      'INVALID_FILTER_NAME',
+      'ARGS_WITHOUT_FILTER',
+      'NESTED_OPEN_BRACE',
+      'INVALID_SLOT_NAME',
+      'UNMATCHED_OPEN_BRACE',
+    ]
+  );
+  assert.ok(result.diagnostics.every(d => d.severity === 'error'));
+  assert.equal(result.diagnostics[0].message, 'Invalid slot: missing/invalid filter in {b|}');
+  assert.equal(result.diagnostics[0].range.start.offset, 11);
+  assert.equal(result.diagnostics[4].range.start.offset, src.lastIndexOf('{'));
+
+  const clean = loom.parse('Hello {name}!');
+  assert.deepEqual(clean.diagnostics, []);
+  assert.throws(() => loom.parse('Hello {name|}!'), LoomParseError);
+}
+
+/* ================================================================
+ * 9) dotted path slots
+ * ================================================================ */
+
+{
+  const T = loom.compile('{user.name} lives in {user.address.city|upper}, first={items.0.title}');
+  const params = {
+    user: { name: 'Ada', address: { city: 'london', zip: 'N1' } },
+    items: [{ title: 'widget' }],
+  };
+  assert.equal(T.render(params), 'Ada lives in LONDON, first=widget');
+  assert.deepEqual(T.slots[1].path, ['user', 'address', 'city']);
+  assert.equal(T.slots[1].name, 'user.address.city');
+  assert.deepEqual(T.toPartsRaw(params).values, ['Ada', 'london', 'widget']);
+
+  assert.throws(
+    () => T.render({ user: { name: 'Ada', address: null }, items: [] } as any),
+    /Missing value for slot "user.address.city"/
+  );
+
+  assert.deepEqual(loom.slotNames(T), ['user.name', 'user.address.city', 'items.0.title']);
+  assert.deepEqual(loom.missingKeys(T, { user: { name: 'Ada' } }), [
+    'user.address.city',
+    'items.0.title',
+  ]);
+  assert.deepEqual(loom.extraKeys(T, { ...params, other: 1 }), ['other']);
+  assert.equal(loom.validate(T, params).ok, true);
+
+  const B = loom.bind(T, { items: [{ title: 'gadget' }] });
+  assert.equal(
+    B.render({ user: { name: 'Bo', address: { city: 'paris' } } }),
+    'Bo lives in PARIS, first=gadget'
+  );
+
+  // leading/adjacent slots keep chunks aligned with slots
+  const adjacent = loom.compile('{a} {b}{c}');
+  assert.deepEqual(adjacent.chunks, ['', ' ', '']);
+  assert.equal(adjacent.render({ a: 1, b: 2, c: 3 }), '1 23');
+
+  // @ts-expect-error malformed paths are rejected by the type checker too
+  assert.throws(() => loom.compile('{user.}'), /invalid path segment/);
+  // @ts-expect-error malformed paths are rejected by the type checker too
+  assert.throws(() => loom.compile('{user..name}'), /invalid path segment/);
+
+  if (false as boolean) {
+    // @ts-expect-error nested key missing
+    T.render({ user: { name: 'Ada', address: {} }, items: [{ title: 'x' }] });
+    // @ts-expect-error items must be indexable objects with a title
+    T.render({ user: { name: 'Ada', address: { city: 'x' } }, items: [{ name: 'x' }] });
+    // @ts-expect-error extra top-level key
+    T.render({ ...params, extra: 1 });
+    // @ts-expect-error bound template keeps nested typing
+    B.render({ user: { name: 'Bo' } });
+  }
+}
+
+/* ================================================================
+ * 10) conditional sections
+ * ================================================================ */
+
+{
+  const T = loom.compile('Hi {name}{#if count}, you have {count} new messages{#else}, no news{/if}.');
+  assert.equal(T.render({ name: 'Ada', count: 3 }), 'Hi Ada, you have 3 new messages.');
+  assert.equal(T.render({ name: 'Ada', count: 0 }), 'Hi Ada, no news.');
+  assert.deepEqual(loom.slotNames(T), ['name', 'count']);
+  assert.equal(T.nodes[2].kind, 'if');
+
+  const parts = T.toParts({ name: 'Ada', count: 3 });
+  assert.deepEqual(parts.chunks, ['Hi ', ', you have ', ' new messages.']);
+  assert.deepEqual(parts.values, ['Ada', 3]);
+  const sink = makeSink();
+  loom.formatTo(T, { name: 'Ada', count: 0 }, undefined, sink);
+  assert.equal(sink.toString(), 'Hi Ada, no news.');
+
+  const U = loom.compile(
+    '{#unless user.verified}Please verify. {/unless}{#if tags}#{tags|join#" #"}{/if}'
+  );
+  assert.equal(U.render({ user: { verified: false }, tags: ['a', 'b'] }), 'Please verify. #a #b');
+  assert.equal(U.render({ user: { verified: true }, tags: [] }), ''); // empty arrays are false
+
+  // filters on the condition, nested sections, else on unless
+  const N = loom.compile(
+    '{#if role|lower}{#if admin}[admin]{#else}[user]{/if}{/if}{#unless ok}bad{#else}good{/unless}'
+  );
+  const policy: TemplatePolicy = { filters: { lower: v => String(v ?? '').toLowerCase() } };
+  assert.equal(N.render({ role: 'X', admin: true, ok: true }, policy), '[admin]good');
+  assert.equal(N.render({ role: '', admin: true, ok: false }, policy), 'bad');
+
+  // untaken branches don't need their values; taken ones do
+  assert.equal(T.render({ name: 'Ada', count: 0 } as any), 'Hi Ada, no news.');
+  assert.throws(
+    () => U.render({ user: {}, tags: [] } as any),
+    /Missing value for slot "user.verified"/
+  );
+
+  const B = loom.bind(T, { name: 'Bo' });
+  assert.equal(B.render({ count: 1 }), 'Hi Bo, you have 1 new messages.');
+
+  const code = (src: string) => {
+    try {
+      loom.compile(src);
+    } catch (e) {
+      return (e as LoomParseError).code;
+    }
+    return 'ok';
+  };
+  assert.equal(code('{#if a}x'), 'UNCLOSED_BLOCK');
+  assert.equal(code('x{/if}'), 'UNEXPECTED_BLOCK_CLOSE');
+  assert.equal(code('{#if a}x{/unless}'), 'UNEXPECTED_BLOCK_CLOSE');
+  assert.equal(code('{#if a}x{#else}y{#else}z{/if}'), 'UNEXPECTED_ELSE');
+  assert.equal(code('{#else}'), 'UNEXPECTED_ELSE');
+  assert.equal(code('{#loop a}{/loop}'), 'UNKNOWN_BLOCK');
+  assert.equal(code('{#ifa}{/if}'), 'UNKNOWN_BLOCK');
+  assert.equal(code('{#if}{/if}'), 'INVALID_SLOT_NAME');
+
+  const recovered = loom.parse('{#if a}A{/unless}{#bad}B{#if c}C', { recover: true });
+  assert.deepEqual(
+    recovered.diagnostics.map(d => d.code),
+    ['UNEXPECTED_BLOCK_CLOSE', 'UNKNOWN_BLOCK', 'UNCLOSED_BLOCK', 'UNCLOSED_BLOCK']
+  );
+  assert.equal(recovered.nodes.length, 1);
+
+  if (false as boolean) {
+    // @ts-expect-error condition slot is a required param
+    T.render({ name: 'Ada' });
+    // @ts-expect-error slots inside sections are required params too
+    U.render({ user: { verified: true } });
+  }
+}
+
+/* ================================================================
+ * 11) loop sections
+ * ================================================================ */
+
+{
+  const T = loom.compile(
+    '{#each items as item}{@index}. {item.title|upper} x{item.qty}{#unless @last}, {/unless}{#else}empty{/each}'
+  );
+  const items = [
+    { title: 'apple', qty: 5, sku: 'A1' },
+    { title: 'pear', qty: 2, sku: 'P7' },
+  ];
+  assert.equal(T.render({ items }), '0. APPLE x5, 1. PEAR x2');
+  assert.equal(T.render({ items: [] }), 'empty');
+  assert.deepEqual(loom.slotNames(T), ['items']);
+  assert.deepEqual(loom.validate(T, { items }), { ok: true, missing: [], extra: [] });
+  assert.equal(loom.hasSlot(T, 'item.title'), false);
+
+  const local = T.slots.filter(s => s.local).map(s => s.name);
+  assert.deepEqual(local, ['@index', 'item.title', 'item.qty', '@last']);
+  assert.equal(T.nodes[0].kind, 'each');
+
+  // missing element fields are errors, not silently ""
+  assert.throws(
+    () => T.render({ items: [{ title: 'x' }] } as any),
+    /Missing value for slot "item.qty"/
+  );
+  assert.throws(() => T.render({ items: 'nope' } as any), /Expected an array for \{#each items\}/);
+
+  // nested loops, outer alias and params inside bodies, escapes in the body
+  const N = loom.compile(
+    '{#each orders as order}#{order.id}[{#each order.lines as line}{line.sku}@{currency}{#if @first}*{/if}{#unless @last},{/unless}{/each}]\\n{/each}'
+  );
+  const out = N.render({
+    currency: 'EUR',
+    orders: [
+      { id: 1, lines: [{ sku: 'a' }, { sku: 'b' }] },
+      { id: 2, lines: [{ sku: 'c' }] },
+    ],
+  });
+  assert.equal(out, '#1[a@EUR*,b@EUR]\n#2[c@EUR*]\n');
+
+  const parts = T.toParts({ items });
+  assert.deepEqual(parts.values, [0, 'APPLE', 5, 1, 'PEAR', 2]);
+
+  const code = (src: string) => {
+    try {
+      loom.compile(src);
+    } catch (e) {
+      return (e as LoomParseError).code;
+    }
+    return 'ok';
+  };
+  assert.equal(code('{#each items}{/each}'), 'INVALID_EACH');
+  assert.equal(code('{#each items as 1x}{/each}'), 'INVALID_EACH');
+  assert.equal(code('{@index}'), 'LOOP_VARIABLE_OUTSIDE_EACH');
+  assert.equal(code('{#each a as b}{@count}{/each}'), 'INVALID_SLOT_NAME');
+  assert.equal(code('{#each a as b}{/if}'), 'UNEXPECTED_BLOCK_CLOSE');
+
+  if (false as boolean) {
+    // @ts-expect-error elements must carry the fields used in the body
+    T.render({ items: [{ title: 'x' }] });
+    // @ts-expect-error the collection must be an array
+    T.render({ items: { title: 'x', qty: 1 } });
+    // @ts-expect-error loop-local names are not params
+    T.render({ items, item: {} });
+    // @ts-expect-error nested element fields are checked too
+    N.render({ currency: 'EUR', orders: [{ id: 1, lines: [{ name: 'a' }] }] });
+  }
+}
+
+/* ================================================================
+ * 12) optional slots and inline defaults
+ * ================================================================ */
+
+{
+  const T = loom.compile('Hi {name}{nickname?|wrap#" (",")"}, by {author ?? "anonymous"|upper}');
+  assert.equal(T.render({ name: 'Ada' }), 'Hi Ada, by ANONYMOUS');
+  assert.equal(
+    T.render({ name: 'Ada', nickname: 'countess', author: 'me' }),
+    'Hi Ada (countess), by ME'
+  );
+  // null and undefined count as absent
+  assert.equal(T.render({ name: 'Ada', nickname: null, author: undefined }), 'Hi Ada, by ANONYMOUS');
+
+  const [, nick, author] = T.slots;
+  assert.equal(nick.optional, true);
+  assert.equal(nick.fallback, undefined);
+  assert.equal(author.optional, true);
+  assert.equal(author.fallback, 'anonymous');
+  assert.equal(author.filter, 'upper');
+  assert.equal(author.fallbackRange?.start.column, 51);
+  assert.equal(T.slots[0].optional, undefined);
+
+  assert.deepEqual(loom.slotNames(T), ['name', 'nickname', 'author']);
+  assert.deepEqual(loom.missingKeys(T, {}), ['name']);
+  assert.deepEqual(loom.validate(T, { name: 'Ada', author: 'x' }), {
+    ok: true,
+    missing: [],
+    extra: [],
+  });
+
+  // bare defaults, escapes and dotted optional paths
+  const D = loom.compile('{count ?? 0} {label ?? n/a} {q ?? "say \\"hi\\""} {user.city?}.');
+  assert.equal(D.render({}), '0 n/a say "hi" .');
+  assert.equal(D.render({ count: 3, user: { city: 'Oslo' } }), '3 n/a say "hi" Oslo.');
+  assert.equal(D.render({ user: {} }), '0 n/a say "hi" .');
+
+  // optional conditions and collections
+  const S = loom.compile('{#if admin?}[admin]{/if}{#each tags? as tag}#{tag}{#else}-{/each}');
+  assert.equal(S.render({}), '-');
+  assert.equal(S.render({ admin: true, tags: ['a', 'b'] }), '[admin]#a#b');
+
+  const B = loom.bind(T, { nickname: 'x' });
+  assert.equal(B.render({ name: 'Ada' }), 'Hi Ada (x), by ANONYMOUS');
+  assert.equal(B.render({ name: 'Ada', nickname: 'y' }), 'Hi Ada (y), by ANONYMOUS');
+
+  const code = (src: string) => {
+    try {
+      loom.compile(src);
+    } catch (e) {
+      return (e as LoomParseError).code;
+    }
+    return 'ok';
+  };
+  assert.equal(code('{a ??}'), 'INVALID_DEFAULT');
+  assert.equal(code('{a ?? "x}'), 'INVALID_DEFAULT');
+  assert.equal(code('{a ?? "x" y}'), 'UNEXPECTED_TRAILING_CONTENT');
+  assert.equal(code('{a? ?}'), 'UNEXPECTED_TRAILING_CONTENT');
+
+  type Keys = SlotKeys<'{a} {b?} {c ?? 1} {a.x?}'>;
+  type Optional = OptionalSlotKeys<'{a} {b?} {c ?? 1} {a.x?}'>;
+  const keys: Keys[] = ['a'];
+  const optional: Optional[] = ['b', 'c'];
+  assert.deepEqual([keys, optional], [['a'], ['b', 'c']]);
+
+  if (false as boolean) {
+    // @ts-expect-error name stays required
+    T.render({ nickname: 'x' });
+    // @ts-expect-error unknown keys are still rejected
+    T.render({ name: 'Ada', nick: 'x' });
+    // @ts-expect-error a required path keeps its object required
+    loom.compile('{user.name} {user.city?}').render({});
+    // @ts-expect-error elements of an optional collection are still checked
+    loom.compile('{#each items? as item}{item.title}{/each}').render({ items: [{}] });
+  }
+}
+
+/* ================================================================
+ * 13) custom delimiters
+ * ================================================================ */
+
+{
+  const css = loom.compile('.btn { color: {{color|lower}}; margin: {{ gap ?? 0 }}px }', {
+    delimiters: ['{{', '}}'],
+  });
+  assert.equal(css.render({ color: 'RED' }), '.btn { color: red; margin: 0px }');
+  assert.deepEqual(loom.slotNames(css), ['color', 'gap']);
+  assert.deepEqual(css.delimiters, ['{{', '}}']);
+  assert.equal(css.slots[0].range?.start.column, 15);
+  assert.equal(css.slots[0].range?.end.column, 30);
+
+  const erb = loom.compile(
+    '<%= #each items as item %><li><%= item.name %></li><%= /each %> \\<%= literal',
+    { delimiters: ['<%=', '%>'] }
+  );
+  assert.equal(
+    erb.render({ items: [{ name: 'a' }, { name: 'b' }] }),
+    '<li>a</li><li>b</li> <%= literal'
+  );
+
+  const js = loom.compile('const x = { a: ${a}, b: `${b|json}` };', { delimiters: ['${', '}'] });
+  assert.equal(js.render({ a: 1, b: 'q' }), 'const x = { a: 1, b: `"q"` };');
+
+  // typed params, bind and concat keep the delimiters
+  const bound = loom.bind(css, { color: 'Blue' });
+  assert.equal(bound.render({}), '.btn { color: blue; margin: 0px }');
+  assert.deepEqual(bound.delimiters, ['{{', '}}']);
+  const both = loom.concat(css, loom.compile(' {{x}}', { delimiters: ['{{', '}}'] }));
+  assert.equal(both.render({ color: 'A', x: 1 }), '.btn { color: a; margin: 0px } 1');
+  assert.throws(() => loom.concat(css as any, loom.compile('{x}')), /different delimiters/);
+
+  const err = (src: string) => {
+    try {
+      loom.compile(src, { delimiters: ['{{', '}}'] });
+    } catch (e) {
+      return e as LoomParseError;
+    }
+    throw new Error('expected a parse error');
+  };
+  assert.equal(err('a {{b').code, 'UNMATCHED_OPEN_BRACE');
+  assert.match(err('a {{b').message, /unmatched '\{\{' at line 1, column 3/);
+  assert.equal(err('{{a {{b}}').code, 'NESTED_OPEN_BRACE');
+  assert.match(err('{{a|}}').message, /in \{\{a\|\}\}/);
+  assert.match(err('{{#if a}}').message, /unclosed \{\{#if\}\}/);
+
+  assert.throws(() => loom.compile('x', { delimiters: ['', '}'] }), /Invalid delimiters/);
+  assert.throws(() => loom.compile('x', { delimiters: ['%', '%'] }), /Invalid delimiters/);
+  assert.throws(() => loom.parse('x', { delimiters: ['\\(', ')'] }), /Invalid delimiters/);
+
+  type Keys = SlotKeys<'{{a}} {b} {{#if c}}{{d?}}{{/if}}', readonly ['{{', '}}']>;
+  const keys: Keys[] = ['a', 'c'];
+  assert.deepEqual(keys, ['a', 'c']);
+
+  if (false as boolean) {
+    // @ts-expect-error slot keys follow the custom delimiters
+    css.render({});
+    // @ts-expect-error only ${…} slots are params
+    js.render({ a: 1, b: 2, x: 3 });
+  }
+}
+
+/* ================================================================
+ * 14) comments and whitespace control
+ * ================================================================ */
+
+{
+  // a comment ends at the first close delimiter; open delimiters inside are plain text
+  const T = loom.compile('{! greeting, see {docs }Hello {name}{! trailing }!');
+  assert.equal(T.render({ name: 'Ada' }), 'Hello Ada!');
+  assert.deepEqual(T.chunks, ['Hello ', '!']);
+  assert.deepEqual(loom.slotNames(T), ['name']);
+  assert.deepEqual(T.nodes.map(n => n.kind), ['text', 'slot', 'text']);
+
+  const cfg = loom.compile('[server]\n  host = {- host -}\n  ;\n  {!- note -}\n  port = {port}\n');
+  assert.equal(cfg.render({ host: 'x', port: 80 }), '[server]\n  host =x;\n  port = 80\n');
+  assert.deepEqual(cfg.chunks, ['[server]\n  host =', ';\n  port = ', '\n']);
+  assert.equal(cfg.slots[0].name, 'host');
+  assert.equal(cfg.slots[0].range?.start.column, 10);
+
+  // sections, escaped whitespace survives, dash arguments need no marker
+  const S = loom.compile('<ul>\n  {-#each items as item -}\n  <li>{item}</li>\\n\n  {-/each -}\n</ul>');
+  assert.equal(S.render({ items: ['a', 'b'] }), '<ul><li>a</li>\n<li>b</li>\n</ul>');
+  assert.equal(loom.compile('{n|pad#3,-}|').render({ n: 1 }), '1--|');
+  assert.equal(loom.compile('a \\t {-b}').render({ b: 1 }), 'a \t1');
+
+  const err = (src: string) => {
+    try {
+      loom.compile(src);
+    } catch (e) {
+      return (e as LoomParseError).code;
+    }
+    return 'ok';
+  };
+  assert.equal(err('a {! never closed'), 'UNMATCHED_OPEN_BRACE');
+  assert.equal(err('{-}'), 'INVALID_SLOT_NAME');
+  const rec = loom.parse('{! x }{a|}{! y', { recover: true });
+  assert.deepEqual(
+    rec.diagnostics.map(d => d.code),
+    ['INVALID_FILTER_NAME', 'UNMATCHED_OPEN_BRACE']
+  );
+
+  type Keys = SlotKeys<'{! {ignored }{- a -}{-b}{#if c -}{/if}{!-d-}'>;
+  const keys: Keys[] = ['a', 'b', 'c'];
+  assert.deepEqual(keys, ['a', 'b', 'c']);
+
+  if (false as boolean) {
+    // @ts-expect-error comments are not slots
+    T.render({ name: 'Ada', docs: 1 });
+    // @ts-expect-error trimmed slots are still required
+    cfg.render({ port: 80 });
+  }
+}
+
+/* ================================================================
+ * 15) partials and {#with}
+ * ================================================================ */
+
+{
+  const partials = loom.registry({
+    header: loom.compile('Dear {name|upper},\n'),
+    address: '{street}, {city}{zip?|wrap#" (",")"}',
+    signature: '-- {>sender}',
+    sender: '{from ?? "the team"}',
+  });
+  assert.deepEqual(partials.names, ['header', 'address', 'signature', 'sender']);
+
+  const letter = partials.compile(
+    '{>header}Ship to {>address with order.shipping}.\n{>signature}'
+  );
+  const params = {
+    name: 'Ada',
+    order: { id: 7, shipping: { street: '1 Loop Rd', city: 'Oslo' } },
+  };
+  assert.equal(letter.render(params), 'Dear ADA,\nShip to 1 Loop Rd, Oslo.\n-- the team');
+  assert.deepEqual(loom.slotNames(letter), [
+    'name',
+    'order.shipping.street',
+    'order.shipping.city',
+    'order.shipping.zip',
+    'from',
+  ]);
+  assert.deepEqual(loom.missingKeys(letter, { name: 'x', order: {} }), [
+    'order.shipping.street',
+    'order.shipping.city',
+  ]);
+  assert.equal(partials.get('signature').render({ from: 'Bo' }), '-- Bo');
+
+  // includes inside loops read the element through {#with}
+  const list = partials.compile('{#each stops as stop}{>address with stop}; {/each}');
+  assert.equal(
+    list.render({ stops: [{ street: 'a', city: 'b', zip: 1 }, { street: 'c', city: 'd' }] }),
+    'a, b (1); c, d; '
+  );
+
+  const W = loom.compile('{#with user.profile}{first} {last}{/with} ({user.id})');
+  assert.equal(W.render({ user: { id: 1, profile: { first: 'A', last: 'L' } } }), 'A L (1)');
+  assert.deepEqual(loom.slotNames(W), ['user.profile.first', 'user.profile.last', 'user.id']);
+
+  const code = (run: () => unknown) => {
+    try {
+      run();
+    } catch (e) {
+      return (e as LoomParseError).code;
+    }
+    return 'ok';
+  };
+  // @ts-expect-error includes need a registry
+  assert.equal(code(() => loom.compile('{>header}')), 'UNKNOWN_PARTIAL');
+  assert.equal(code(() => partials.compile('{>footer}')), 'UNKNOWN_PARTIAL');
+  assert.equal(code(() => partials.compile('{>header extra}')), 'UNKNOWN_PARTIAL');
+  assert.equal(code(() => loom.registry({ a: 'x{>b}', b: '{>c}', c: '{>a}' })), 'PARTIAL_CYCLE');
+  // @ts-expect-error {#with} takes a plain path
+  assert.equal(code(() => loom.compile('{#with a|upper}{/with}')), 'INVALID_WITH');
+  // @ts-expect-error {#with} has no {#else}
+  assert.equal(code(() => loom.compile('{#with a}{#else}{/with}')), 'UNEXPECTED_ELSE');
+  try {
+    loom.registry({ a: 'x{>b}', b: '{>c}', c: '{>a}' });
+  } catch (e) {
+    assert.match((e as Error).message, /partial cycle a -> b -> c -> a/);
+  }
+  assert.throws(
+    () => loom.registry({ a: loom.compile('{{x}}', { delimiters: ['{{', '}}'] }) } as any),
+    /different delimiters/
+  );
+  assert.equal(partials.compile('\\{>header}').render({}), '{>header}');
+  // includes inside comments are left alone; the comment ends at the first `}`, as parsed
+  assert.equal(partials.compile('hi {! see {>missing} } there').render({}), 'hi  } there');
+  assert.equal(partials.compile('a{! {>header}b').render({}), 'ab');
+  assert.equal(partials.compile('a {-! {>header}b').render({}), 'ab');
+
+  // parse errors point into the source as written, not the expanded one
+  const located = (run: () => unknown) => {
+    try {
+      run();
+    } catch (e) {
+      const { range, frame } = e as LoomParseError;
+      return [range.start.line, range.start.column, range.end.column, frame.split('\n')[0]];
+    }
+    return [];
+  };
+  const wide = loom.registry({ a: 'AAAAAAAAAAAAAAAAAAAAAAA{x}' });
+  const bad: string = '{>a} {bad|}';
+  assert.deepEqual(located(() => wide.compile(bad)), [1, 11, 12, '> 1 | {>a} {bad|}']);
+  const spanning: string = '{>a}\n{#if y}{>a}';
+  assert.deepEqual(located(() => wide.compile(spanning)), [2, 1, 8, '  1 | {>a}']);
+  const nested = () => loom.registry({ a: 'AAAAAAAA{x}', b: '{>a}{#each', c: 'C' });
+  assert.deepEqual(located(nested), [1, 5, 6, '> 1 | {>a}{#each']);
+
+  const curly = loom.registry({ row: '<td>{{cell}}</td>' }, { delimiters: ['{{', '}}'] });
+  assert.equal(curly.compile('<tr>{{>row}}</tr>').render({ cell: 1 }), '<tr><td>1</td></tr>');
+
+  // compile options apply to every template; a compiled entry's policy goes where it is included
+  const login = loom.compile('{user} / {password}', { secrets: ['password'] });
+  const audit = loom.registry({ login, card: 'card {card}' }, { secrets: ['card'], codegen: true });
+  const entry = audit.compile('{>login}, {>card}');
+  const secretParams = { user: 'ada', password: 'hunter2', card: '4111' };
+  assert.equal(loom.renderRedacted(entry, secretParams), 'ada / ********, card ********');
+  assert.equal(entry.render(secretParams), 'ada / hunter2, card 4111');
+  const wrapped = loom.registry({ wrap: '[{>login}]', login }).get('wrap');
+  assert.equal(loom.renderRedacted(wrapped, { user: 'bo', password: 'x' }), '[bo / ********]');
+  const shouting = loom.createLoom({ filters: { shout: (v: string) => `${v}!` } });
+  const hello = loom.registry({ hello: shouting.compile('hi {name|shout}') });
+  assert.equal(hello.get('hello').render({ name: 'ada' }), 'hi ada!');
+  const repeat = loom.typedFilter(['integer'], (v, n) => String(v).repeat(n));
+  assert.throws(
+    () => loom.registry({ a: '{x|repeat#y}' }, { filters: { repeat } }),
+    /repeat: argument 1 must be an integer/
+  );
+
+  type Keys = SlotKeys<typeof letter.source>;
+  const keys: Keys[] = ['name', 'order'];
+  assert.deepEqual(keys, ['name', 'order']);
+
+  if (false as boolean) {
+    // @ts-expect-error slots of included partials are required
+    letter.render({ name: 'Ada' });
+    // @ts-expect-error remapped slots are read below the with path
+    letter.render({ name: 'Ada', order: { shipping: { street: 'x' } } });
+    // @ts-expect-error names inside {#with} are not top-level params
+    W.render({ user: { id: 1, profile: { first: 'A', last: 'L' } }, first: 'A' });
+    // @ts-expect-error loop elements need the partial's fields
+    list.render({ stops: [{ street: 'a' }] });
+  }
+}
+
+/* ================================================================
+ * 16) typed filter arguments
+ * ================================================================ */
+
+{
+  const t = loom.parse('{v|demo#2, -1.5, true, false, null, "7", \\8, [1, "a,b", [x]], word}');
+  const f = t.slots[0]!.filters![0]!;
+  assert.deepEqual(f.args, [2, -1.5, true, false, null, '7', '8', [1, 'a,b', ['x']], 'word']);
+  assert.deepEqual(f.rawArgs, [
+    '2', '-1.5', 'true', 'false', 'null', '7', '8', '[1, "a,b", [x]]', 'word',
+  ]);
+  assert.equal(f.argRanges![7]!.start.column, 46);
+  assert.equal(f.argRanges![7]!.end.column, 61);
+  assert.deepEqual(t.slots[0]!.args, f.rawArgs);
+
+  // malformed lists read as text, as before
+  assert.deepEqual(loom.compile('{v|wrap#[,]}').slots[0]!.args, ['[', ']']);
+  assert.deepEqual(loom.compile('{v|wrap#[a}').slots[0]!.filters![0]!.args, ['[a']);
+  assert.equal(loom.compile('{v|wrap#[,]}').render({ v: 'x' }), '[x]');
+
+  // built-ins receive typed values; string arguments keep the text as written
+  assert.equal(loom.compile('{v|pad#5,0}').render({ v: 'ab' }), 'ab000');
+  assert.equal(loom.compile('{v|wrap#007}').render({ v: '-' }), '007-007');
+  assert.equal(loom.compile('{v|json#}').render({ v: [1] }), '[1]');
+  assert.equal(loom.compile('{v|json#2}').render({ v: [1] }), '[\n  1\n]');
+  assert.equal(loom.compile('{v|path#a.b,0}').render({ v: {} }), '0');
+  assert.equal(loom.compile('{v|join#, }').render({ v: [1, 2] }), '12');
+
+  const code = (f: () => unknown) => {
+    try {
+      f();
+    } catch (e) {
+      return (e as InstanceType<typeof LoomParseError>).code;
+    }
+    return 'ok';
+  };
+  assert.equal(code(() => loom.compile('{v|fixed#1.5}')), 'INVALID_FILTER_ARGS');
+  assert.equal(code(() => loom.compile('{v|wrap#[1]}')), 'INVALID_FILTER_ARGS');
+  assert.equal(code(() => loom.compile('{v|json#1,2}')), 'INVALID_FILTER_ARGS');
+  assert.equal(code(() => loom.compile('{v|upper#x}')), 'ok');
+  try {
+    loom.compile('x {v|slice#1,"b"}');
+  } catch (e) {
+    const err = e as InstanceType<typeof LoomParseError>;
+    assert.match(err.reason, /slice: argument 2 must be an integer, got "b"/);
+    assert.equal(err.range.start.column, 14);
+    assert.equal(err.range.end.column, 17);
+  }
+  const parsed = loom.parse('{a|slice#x} {b|slice#1}', { recover: true });
+  assert.deepEqual(parsed.diagnostics.map(d => d.code), ['INVALID_FILTER_ARGS']);
+  assert.deepEqual(parsed.slots.map(s => s.name), ['b']);
+
+  // custom typed filters: checked when compiled with them and before each call
+  const repeat = loom.typedFilter(['integer', 'string?'], (v, times, sep = '') =>
+    Array.from({ length: times }, () => String(v)).join(sep)
+  );
+  const pick = loom.typedFilter(['list', 'boolean?'], (v, options, last) =>
+    last ? options[options.length - 1] : options[Number(v)]
+  );
+  const filters = { repeat, pick };
+  const render = (src: string, v: unknown) =>
+    loom.compile(src, { filters }).render({ v } as never, { filters });
+  assert.equal(render('{v|repeat#3,-}', 'a'), 'a-a-a');
+  assert.equal(render('{v|pick#[x, y, z]}', 1), 'y');
+  assert.equal(render('{v|pick#["x", 2], true}', 0), '2');
+  assert.equal(code(() => loom.compile('{v|repeat#x}', { filters })), 'INVALID_FILTER_ARGS');
+  assert.equal(code(() => loom.compile('{v|pick#x}', { filters })), 'INVALID_FILTER_ARGS');
+  assert.throws(
+    // @ts-expect-error without the filters, compile neither knows nor checks repeat
+    () => loom.compile('{v|repeat#x}').render({ v: 'a' }, { filters }),
+    /repeat: argument 1 must be an integer, got "x"/
+  );
+
+  // untyped filters still get the argument text
+  const echo = (_: unknown, ...args: string[]) => JSON.stringify(args);
+  const out = loom.compile('{v|echo#1, true, [2]}', { filters: { echo } }).render({ v: 0 }, {
+    filters: { echo },
+  });
+  assert.equal(out, '["1","true","[2]"]');
+
+  if (false as boolean) {
+    // @ts-expect-error typed filters receive declared types
+    loom.typedFilter(['integer'], (_v, n: string) => n);
+  }
+}
+
+/* ================================================================
+ * 17) unknown filter names at compile time
+ * ================================================================ */
+
+{
+  type Unknown = UnknownFilters<'{a|uppr|lower} {#if b|nope}{/if} {c|join#"|"} {d|wrap#"x|y"}'>;
+  const unknown: Unknown[] = ['uppr', 'nope'];
+  assert.deepEqual(unknown, ['uppr', 'nope']);
+
+  const builtins: BuiltinFilterName[] = [
+    'upper', 'lower', 'trim', 'slice', 'wrap', 'json', 'path', 'pad', 'fixed', 'map', 'join',
+    'raw', 'ident', 'secret', 'number', 'currency', 'percent', 'date', 'time', 'datetime',
+    'relative', 'list', 'plural', 'ordinal', 'select',
+  ];
+  assert.deepEqual(Object.keys(loom.builtinPolicy.filters!).sort(), builtins.slice().sort());
+
+  // filters passed to compile are known; loosely typed filter records allow any name
+  const shout = (v: unknown) => `${String(v)}!`;
+  const t = loom.compile('{a|shout|upper}', { filters: { shout } });
+  assert.equal(t.render({ a: 'hi' }, { filters: { shout } }), 'HI!');
+  const policy: TemplatePolicy = { filters: { shout } };
+  const loose = loom.compile('{a|shout}', { filters: policy.filters });
+  assert.equal(loose.render({ a: 1 }, policy), '1!');
+  const dynamic: string = '{a|anything}';
+  assert.equal(loom.compile(dynamic).source, '{a|anything}');
+
+  if (false as boolean) {
+    // @ts-expect-error built-ins and pieces of quoted arguments are not reported
+    const known: Unknown = 'lower';
+    void known;
+    // @ts-expect-error misspelled built-in
+    loom.compile('{name|uppr}');
+    // @ts-expect-error filters on section subjects are checked too
+    loom.compile('{#each items|nope as item}{item}{/each}');
+    // @ts-expect-error custom delimiters
+    loom.compile('{{a|nope}}', { delimiters: ['{{', '}}'] });
+    // @ts-expect-error the filter is only known when passed to compile
+    loom.compile('{a|shout}');
+    const message: LoomError<'Unknown filter: uppr'> = { __loomError: 'Unknown filter: uppr' };
+    const check: CheckFilters<'{name|uppr}'> = message;
+    void check;
+  }
+}
+
+/* ================================================================
+ * 18) slot value types from the first filter
+ * ================================================================ */
+
+{
+  const invoice = loom.compile(
+    '{customer.name|upper}: {total|fixed#2} for {items|join#", "} ({meta|path#ref.id}) {total}'
+  );
+  const out = invoice.render({
+    customer: { name: 'ada' },
+    total: 12.5,
+    items: ['tea', 'cake'],
+    meta: { ref: { id: 7 } },
+  });
+  assert.equal(out, 'ADA: 12.50 for tea, cake (7) 12.5');
+
+  const lines = loom.compile('{#each rows as row}{row.price|fixed#1} {/each}{discount?|fixed}');
+  assert.equal(lines.render({ rows: [{ price: 1 }, { price: 2.25 }] }), '1.0 2.3 ');
+  assert.equal(lines.render({ rows: [], discount: 3 }), '3');
+
+  const chained = loom.compile('{label|upper|fixed}');
+  assert.throws(() => chained.render({ label: 'x' }), /fixed: non-numeric value X/);
+
+  type Shape = ParamsShape<'{t|fixed} {xs|map#x => $x$} {o.p|path#a}'>;
+  const shape: Shape = { t: 1, xs: [], o: { p: {} } };
+  assert.deepEqual(shape, { t: 1, xs: [], o: { p: {} } });
+
+  const bound = loom.bind(invoice, { customer: { name: 'b' }, meta: {} });
+  assert.equal(bound.render({ total: 1, items: [] }), 'B: 1.00 for  () 1');
+
+  if (false as boolean) {
+    // @ts-expect-error fixed needs a number
+    invoice.render({ customer: { name: 'a' }, total: '12', items: [], meta: {} });
+    // @ts-expect-error join needs an array
+    invoice.render({ customer: { name: 'a' }, total: 1, items: 'tea', meta: {} });
+    // @ts-expect-error path needs an object
+    invoice.render({ customer: { name: 'a' }, total: 1, items: [], meta: 'ref' });
+    // @ts-expect-error loop element fields are typed too
+    lines.render({ rows: [{ price: '1' }] });
+    // @ts-expect-error optional slots keep their type
+    lines.render({ rows: [], discount: 'none' });
+    // @ts-expect-error bound templates check the remaining params
+    bound.render({ total: 'x', items: [] });
+  }
+}
+
+/* ================================================================
+ * 19) type-level parser agrees with the runtime parser
+ * ================================================================ */
+
+{
+  /** Assert that parsing S fails with the code the type-level parser predicts ('ok': none) */
+  const agree = <const S extends string>(
+    source: S,
+    expected: [TemplateSyntaxError<S>] extends [never] ? 'ok' : TemplateSyntaxError<S>
+  ) => {
+    let actual = 'ok';
+    try {
+      loom.parse(source);
+    } catch (e) {
+      if (!(e instanceof LoomParseError)) throw e;
+      actual = e.code;
+    }
+    assert.equal(actual, expected, source);
+  };
+
+  agree('\\{literal\\}', 'ok');
+  agree('\\\\{a}', 'ok');
+  agree('{a|join#"|"} {b|wrap#\\|} {- c -} {!note {x} {d.0.e ?? "x|y"}', 'ok');
+  agree('{#each xs as x}{@index}{x.y|fixed}{#else}-{/each}{#with a}{b}{/with}', 'ok');
+  agree('a {b {c}}', 'NESTED_OPEN_BRACE');
+  agree('a {b', 'UNMATCHED_OPEN_BRACE');
+  agree('{! unclosed', 'UNMATCHED_OPEN_BRACE');
+  agree('{a\\}b}', 'UNEXPECTED_TRAILING_CONTENT');
+  agree('{a#2}', 'ARGS_WITHOUT_FILTER');
+  agree('{a|1x}', 'INVALID_FILTER_NAME');
+  agree('{a.}', 'INVALID_SLOT_NAME');
+  agree('{a ??}', 'INVALID_DEFAULT');
+  agree('{a ?? "}"}', 'INVALID_DEFAULT');
+  agree('{#loop a}{/loop}', 'UNKNOWN_BLOCK');
+  agree('{#each xs}{/each}', 'INVALID_EACH');
+  agree('{#with a?}{/with}', 'INVALID_WITH');
+  agree('{#if a}x', 'UNCLOSED_BLOCK');
+  agree('{#if a}{/each}', 'UNEXPECTED_BLOCK_CLOSE');
+  agree('{#else}', 'UNEXPECTED_ELSE');
+  agree('{@index}', 'LOOP_VARIABLE_OUTSIDE_EACH');
+  agree('{>header}', 'UNKNOWN_PARTIAL');
+
+  // escaped delimiters are text, not slots
+  const escaped = loom.compile('\\{literal\\} {name}');
+  const escapedKeys: [SlotKeys<'\\{literal\\} {name}'>] = ['name'];
+  assert.deepEqual(escapedKeys, ['name']);
+  assert.equal(escaped.render({ name: 'x' }), '{literal} x');
+  assert.equal(loom.compile('\\\\{a}').render({ a: 1 }), '\\1');
+
+  const message: CheckTemplate<'a {b {c}}'> = {
+    __loomError: 'Invalid template: NESTED_OPEN_BRACE in {b {c}',
+  };
+  assert.ok(message);
+  const fine: CheckTemplate<'{a|upper}'> = 'anything';
+  assert.ok(fine);
+
+  if (false as boolean) {
+    // @ts-expect-error malformed templates do not compile
+    loom.compile('a {b {c}}');
+    // @ts-expect-error unclosed sections do not compile
+    loom.compile('{#if a}x');
+    // @ts-expect-error escaped braces are not slots
+    escaped.render({ name: 'x', literal: 1 });
+  }
+}
+
+/* ================================================================
+ * 20) createLoom instances
+ * ================================================================ */
+
+{
+  const app = loom.createLoom({
+    filters: {
+      percent: (v: number, digits = '0') => `${(v * 100).toFixed(Number(digits))}%`,
+      shout: (v: unknown) => `${String(v)}!`,
+      repeat: loom.typedFilter(['integer'], (v, times) => String(v).repeat(times)),
+    },
+    asString: v => (v == null ? '-' : String(v)),
+  });
+
+  const t = app.compile('{name|shout|upper} {ratio|percent#1} {note}');
+  assert.equal(t.render({ name: 'ada', ratio: 0.256, note: null }), 'ADA! 25.6% -');
+  assert.deepEqual(t.toParts({ name: 'a', ratio: 1, note: null }).values, ['A!', '100.0%', null]);
+  assert.equal(app.tryRender(t, { name: 'b', ratio: 0, note: 1 }).ok, true);
+  assert.equal(app.bind(t, { ratio: 0.5 }).render({ name: 'c', note: undefined }), 'C! 50.0% -');
+  const sink = makeSink();
+  app.formatTo(t, { name: 'd', ratio: 0.1, note: 'n' }, undefined, sink);
+  assert.equal(String(sink), 'D! 10.0% n');
+
+  // per-call policies layer over the instance policy
+  const quiet: TemplatePolicy = { filters: { shout: (v: unknown) => String(v) } };
+  assert.equal(t.render({ name: 'e', ratio: 0, note: null }, quiet), 'E 0.0% -');
+  const attempt = app.tryRender(t, { name: 'f', ratio: 0, note: 1 }, { asString: () => '?' });
+  assert.deepEqual(attempt, { ok: true, value: '? ? ?' });
+  assert.equal(t.render({ name: 'g', ratio: 0, note: 1 }, { asString: () => '?' }), '? ? ?');
+
+  // templates from the static loom object are unaffected
+  assert.equal(loom.compile('{note}').render({ note: null }), 'null');
+  assert.equal(app.compile('{note}').render({ note: null }), '-');
+
+  // typed custom filters are checked at parse time
+  assert.equal(app.compile('{v|repeat#3}').render({ v: 'ab' }), 'ababab');
+  assert.throws(() => app.compile('{v|repeat#x}'), LoomParseError);
+  assert.deepEqual(app.parse('{v|repeat#x}', { recover: true }).diagnostics.map(d => d.code), [
+    'INVALID_FILTER_ARGS',
+  ]);
+
+  // instance delimiters and helpers
+  const angled = loom.createLoom({ delimiters: ['<<', '>>'] });
+  const greeting = angled.compile('Hi <<name>> {x}');
+  assert.equal(greeting.render({ name: 'Ann' }), 'Hi Ann {x}');
+  assert.deepEqual(angled.slotNames(greeting), ['name']);
+  assert.deepEqual(app.missingKeys(t, { name: 'x' }), ['ratio', 'note']);
+  const joined = app.concat(t, app.compile(' {x|percent}'));
+  assert.equal(joined.render({ name: '', ratio: 1, note: 'n', x: 2 }), '! 100.0% n 200%');
+
+  // concat layers both policies, combining secret patterns, and refuses conflicting ones
+  const german = loom.createLoom({ locale: 'de' });
+  const amount = german.compile('{n|number}');
+  const paid = loom.concat(amount, loom.compile(' {pin}', { secrets: ['pin'] }));
+  assert.equal(loom.renderRedacted(paid, { n: 1000, pin: 1234 }), '1.000 ********');
+  const total = german.concat(amount, german.compile(' {m|number}', { codegen: true }));
+  assert.equal(total.render({ n: 1000, m: 2000 }), '1.000 2.000');
+  const english = loom.createLoom({ locale: ['en'] }).compile(' {n|number}');
+  assert.throws(() => loom.concat(amount, english), /concat: templates have different locale/);
+  const tags = ['<', '['].map(open =>
+    loom.createLoom({ filters: { tag: (v: string) => open + v } }).compile('{v|tag}')
+  );
+  assert.throws(() => loom.concat(tags[0]!, tags[1]!), /concat: templates have different "tag"/);
+  assert.ok(Object.isFrozen(app) && Object.isFrozen(app.policy));
+
+  if (false as boolean) {
+    // @ts-expect-error percent takes a number
+    t.render({ name: 'a', ratio: '1', note: null });
+    // @ts-expect-error unknown filters are still reported
+    app.compile('{a|nope}');
+    // @ts-expect-error filters of one instance are unknown to others
+    angled.compile('<<a|shout>>');
+    // @ts-expect-error the filter value type is checked through bind too
+    app.bind(t, { ratio: 0.5 }).render({ name: 'c', ratio: 'x', note: null });
+  }
+}
+
+/* ================================================================
+ * 21) precompiled render functions
+ * ================================================================ */
+
+{
+  const rows = '{#each rows as row}{@index}:{row.name|upper}{#if row.tags}[{row.tags|join#/}]';
+  const rest = '{#else}-{/if}{#unless @last}; {/unless}{#else}none{/each}';
+  const source = `${rows}${rest} {title ?? "Untitled"}{note?} \\{x\\} "\n` as const;
+  const params = {
+    rows: [{ name: 'a', tags: ['x', 'y'] }, { name: 'b', tags: [] }],
+    title: null,
+  };
+  const interpreted = loom.compile(source);
+  const generated = loom.compile(source, { codegen: true });
+  const closures = loom.compile(source, { codegen: 'closures' });
+  const expected = '0:A[x/y]; 1:B- Untitled {x} "\n';
+  assert.equal(interpreted.render(params), expected);
+  assert.equal(generated.render(params), expected);
+  assert.equal(closures.render(params), expected);
+  assert.equal(generated.render({ rows: [], title: 'T', note: 1 }), 'none T1 {x} "\n');
+  assert.equal(closures.render({ rows: [], title: 'T', note: 1 }), 'none T1 {x} "\n');
+
+  const fn = loom.compileFn(source);
+  assert.equal(fn(params), expected);
+  assert.equal(fn.template.source, source);
+  assert.match(fn.code!, /^return function render\(r\)/);
+  const cspFn = loom.compileFn(source, { codegen: 'closures' });
+  assert.equal(cspFn(params), expected);
+  assert.equal(cspFn.code, undefined);
+
+  // filters and policies are bound when the function is built
+  const shout = (v: unknown) => `${String(v)}!`;
+  const line = loom.compileFn('{a|shout|upper} {b|fixed#1}', { filters: { shout } }, {
+    transform: (slot, v) => (slot.name === 'b' ? Number(v) * 2 : v),
+  });
+  assert.equal(line({ a: 'hi', b: 1 }), 'HI! 2.0');
+  const policy: TemplatePolicy = { filters: { shout: (v: unknown) => `${String(v)}?` } };
+  const t = loom.compile('{a|shout}', { filters: { shout }, codegen: true });
+  assert.equal(t.render({ a: 1 }, policy), '1?');
+  assert.equal(t.render({ a: 2 }, { filters: { shout } }), '2!');
+  assert.equal(loom.createLoom({ filters: { shout } }).compileFn('{a|shout}')({ a: 3 }), '3!');
+
+  // errors match the interpreter's and are thrown when rendering
+  const errors = (src: string, p: Record<string, unknown>, pol?: TemplatePolicy) =>
+    [undefined, true, 'closures' as const].map(codegen => {
+      try {
+        return loom.compile(src as never, { codegen }).render(p as never, pol);
+      } catch (e) {
+        return (e as Error).message;
+      }
+    });
+  const same = (src: string, p: Record<string, unknown>, message: string, pol?: TemplatePolicy) =>
+    assert.deepEqual(errors(src, p, pol), [message, message, message]);
+  same('{a.b}', { a: {} }, 'Missing value for slot "a.b"');
+  same('{a|nope}', { a: 1 }, 'Unknown filter "nope"', { filters: {} });
+  same('{#each a as x}{x}{/each}', { a: 1 }, 'Expected an array for {#each a}');
+  const repeat = loom.typedFilter(['integer'], (v, n) => String(v).repeat(n));
+  same('{a|repeat#x}', { a: 1 }, 'repeat: argument 1 must be an integer, got "x"', {
+    filters: { repeat },
+  });
+  same('{#each a as __proto__}{__proto__}{/each}', { a: [1] }, '1');
+  same('{a|json}', { a: { b: [1] } }, '{"b":[1]}');
+
+  // paths read own properties only, as in the interpreter
+  same('{a.toString}', { a: {} }, 'Missing value for slot "a.toString"');
+  assert.equal(loom.compileFn('{a.b?}')({ a: { c: 1 } }), '');
+
+  if (false as boolean) {
+    // @ts-expect-error render functions check their params
+    line({ a: 'hi', b: 'x' });
+    // @ts-expect-error and know the filters they were compiled with
+    loom.compileFn('{a|shout}');
+  }
+}
+
+/* ================================================================
+ * 22) pre-resolved renderers
+ * ================================================================ */
+
+{
+  const shout = (v: unknown) => `${String(v)}!`;
+  const policy: TemplatePolicy = { filters: { shout }, asString: v => `<${String(v)}>` };
+  const t = loom.compile('{#each xs as x}{@index}={x.n|shout}{#if @last}.{/if}{/each}', {
+    filters: { shout },
+  });
+  const params = { xs: [{ n: 1 }, { n: 2 }] };
+  const render = loom.renderer(t, policy);
+  assert.equal(render(params), t.render(params, policy));
+  assert.equal(render(params), '<0>=<1!><1>=<2!>.');
+  assert.equal(render.template, t);
+  // one function per template and policy object; loops allocate no scope objects
+  assert.equal(loom.renderer(t, policy).code, render.code);
+  assert.doesNotMatch(render.code!, /\.\.\.|\{ *\[/);
+
+  // the policy is checked up front, including filters in sections that might not render
+  assert.throws(() => loom.renderer(t), /Unknown filter "shout"/);
+  const repeat = loom.typedFilter(['integer'], (v, n) => String(v).repeat(n));
+  // @ts-expect-error repeat is only known to the policy
+  const typed = loom.compile('{#if no}{a|repeat#x}{/if}');
+  assert.equal(typed.render({ no: false, a: 1 }, { filters: { repeat } }), '');
+  assert.throws(
+    () => loom.renderer(typed, { filters: { repeat } }),
+    /repeat: argument 1 must be an integer, got "x"/
+  );
+  assert.throws(() => loom.renderer(loom.bind(t, {}) as never), TypeError);
+
+  // instances render with their policy under the given one
+  const app = loom.createLoom({ filters: { shout } });
+  const greet = app.renderer(loom.compile('{a|upper}'), { asString: v => `[${String(v)}]` });
+  assert.equal(greet({ a: 'x' }), '[X]');
+  assert.equal(app.renderer(app.compile('{a|shout}'))({ a: 'y' }), 'y!');
+
+  if (false as boolean) {
+    // @ts-expect-error renderers check their params
+    render({ xs: 1 });
+  }
+}
+
+/* ================================================================
+ * 23) async rendering
+ * ================================================================ */
+
+pending.push(
+  (async () => {
+    const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+    let active = 0;
+    let most = 0;
+    const name = async (id: unknown) => {
+      most = Math.max(most, ++active);
+      await tick();
+      active--;
+      return `user${String(id)}`;
+    };
+    const filters = { name };
+
+    const source = '{owner|name} shared {count|fixed} files with {team.lead|name}{note?}';
+    const t = loom.compile(source, { filters });
+    const params = {
+      owner: Promise.resolve(1),
+      count: Promise.resolve(3),
+      team: Promise.resolve({ lead: Promise.resolve(2) }),
+      note: Promise.resolve(null),
+    };
+    assert.equal(await t.renderAsync(params, { filters }), 'user1 shared 3 files with user2');
+    assert.equal(most, 2, 'independent slots are evaluated concurrently');
+    const parts = await t.toPartsAsync(params, { filters });
+    assert.deepEqual(parts.values, ['user1', '3', 'user2', '']);
+    assert.deepEqual(parts.chunks, t.chunks);
+
+    // sections: conditions, collections and loop bodies may all be promised
+    const each = '{#each users as u}{u.id|name}{#if u.admin}*{/if} {#else}none{/each}';
+    const list = loom.compile(each, { filters });
+    most = 0;
+    const users = Promise.resolve([{ id: 1, admin: Promise.resolve(true) }, { id: 2, admin: 0 }]);
+    assert.equal(await list.renderAsync({ users }, { filters }), 'user1* user2 ');
+    assert.equal(most, 2);
+    assert.equal(await list.renderAsync({ users: [] }, { filters }), 'none');
+    const sync = { users: [{ id: 1, admin: true }] };
+    const syncFilters = { name: (id: unknown) => `user${String(id)}` };
+    assert.deepEqual(
+      await list.toPartsAsync(sync, { filters: syncFilters }),
+      list.toParts(sync, { filters: syncFilters })
+    );
+
+    // bound templates await bound and given params
+    const bound = loom.bind(t, { owner: Promise.resolve(7), team: { lead: 8 } });
+    const boundOut = await bound.renderAsync({ count: 1 }, { filters });
+    assert.equal(boundOut, 'user7 shared 1 files with user8');
+    const boundParts = await bound.toPartsAsync({ count: Promise.resolve(0) }, { filters });
+    assert.deepEqual(boundParts.values, ['user7', '0', 'user8', '']);
+
+    // the error render would throw; the first in document order when several slots fail
+    const message = async (promise: Promise<unknown>) => {
+      try {
+        await promise;
+      } catch (e) {
+        return (e as Error).message;
+      }
+      return 'ok';
+    };
+    const boom = async () => {
+      await tick();
+      throw new Error('boom');
+    };
+    const two = loom.compile('{a} {b|boom}', { filters: { boom } });
+    const policy = { filters: { boom } };
+    const missing = two.renderAsync({ b: 1 } as never, policy);
+    assert.equal(await message(missing), 'Missing value for slot "a"');
+    assert.equal(await message(two.renderAsync({ a: 1, b: 1 }, policy)), 'boom');
+    const rejected = two.renderAsync({ a: Promise.reject(new Error('db')), b: 1 });
+    assert.equal(await message(rejected), 'db');
+    const notArray = list.renderAsync({ users: Promise.resolve(1) } as never);
+    assert.equal(await message(notArray), 'Expected an array for {#each users}');
+    assert.equal(await message(two.toPartsAsync({ a: 1, b: 1 })), 'Unknown filter "boom"');
+
+    if (false as boolean) {
+      // @ts-expect-error promised values keep their types
+      await t.renderAsync({ ...params, count: Promise.resolve('3') });
+      // @ts-expect-error and nested shapes
+      await t.renderAsync({ ...params, team: Promise.resolve({ leader: 2 }) });
+    }
+  })()
+);
+
+/* ================================================================
+ * 24) streaming output
+ * ================================================================ */
+
+pending.push(
+  (async () => {
+    const collect = async (chunks: AsyncIterable<string>) => {
+      const out: string[] = [];
+      for await (const chunk of chunks) out.push(chunk);
+      return out;
+    };
+
+    const page = loom.compile(
+      '<h1>{title|upper}</h1>{#each rows as row}<p>{row}</p>{/each}{tags|join#", "}'
+    );
+    const params = { title: 'list', rows: ['a', 'b', 'c'], tags: ['x', 'y'] };
+    const expected = page.render(params);
+    assert.deepEqual(await collect(loom.renderStream(page, params)), [expected]);
+    const small = await collect(loom.renderStream(page, params, undefined, { chunkSize: 1 }));
+    assert.equal(small.join(''), expected);
+    assert.ok(small.length > 5);
+
+    // output before a pending value is emitted before waiting for it
+    let release!: (v: string) => void;
+    const title = new Promise<string>(resolve => (release = resolve));
+    const stream = loom.renderStream(page, { ...params, title })[Symbol.asyncIterator]();
+    assert.deepEqual(await stream.next(), { done: false, value: '<h1>' });
+    release('late');
+    const rest = expected.replace('LIST', 'LATE').slice(4);
+    assert.deepEqual(await stream.next(), { done: false, value: rest });
+    assert.equal((await stream.next()).done, true);
+
+    // large loops and joined lists are emitted in chunks, not built as one string
+    const big = Array.from({ length: 50_000 }, (_, i) => i);
+    const list = loom.compile('{#each items as n}{n},{/each}|{items|join#;}');
+    const options = { chunkSize: 4096 };
+    const chunks = await collect(loom.renderStream(list, { items: big }, undefined, options));
+    assert.ok(chunks.length > 100);
+    assert.ok(chunks.every(c => c.length < 4096 + 16));
+    assert.equal(chunks.join(''), list.render({ items: big }));
+    const angled: TemplatePolicy = { asString: v => `<${String(v)}>` };
+    const wrapped = await collect(loom.renderStream(list, { items: [1, 2] }, angled));
+    assert.equal(wrapped.join(''), list.render({ items: [1, 2] }, angled));
+
+    // errors are the ones render throws
+    const failure = (done: Promise<unknown>) =>
+      done.then(
+        () => 'ok',
+        (e: Error) => e.message
+      );
+    const streamed = (p: object) => collect(loom.renderStream(page, p as never));
+    const notArray = await failure(streamed({ ...params, rows: 1 }));
+    assert.equal(notArray, 'Expected an array for {#each rows}');
+    assert.equal(await failure(streamed({ ...params, tags: 'x' })), 'join: value must be an array');
+    assert.equal(await failure(streamed({ title: 'x' })), 'Missing value for slot "rows"');
+
+    // Node.js writables: writes wait for 'drain' when the destination is full
+    const written: string[] = [];
+    let full = 0;
+    const sink = new Writable({
+      highWaterMark: 8,
+      decodeStrings: false,
+      write(chunk: string, _encoding, done) {
+        written.push(chunk);
+        setImmediate(done);
+      },
+    });
+    const write = sink.write.bind(sink);
+    sink.write = ((chunk: string) => {
+      const ok = write(chunk);
+      if (!ok) full++;
+      return ok;
+    }) as typeof sink.write;
+    await loom.pipeTo(page, params, sink, undefined, { chunkSize: 4 });
+    assert.equal(written.join(''), expected);
+    assert.ok(full > 0);
+    assert.equal(sink.writableFinished, true);
+
+    const open = new Writable({ write: (_chunk, _encoding, done) => done() });
+    await loom.pipeTo(page, params, open, undefined, { end: false });
+    assert.equal(open.writableEnded, false);
+    const broken = new Writable({ write: (_chunk, _encoding, done) => done() });
+    broken.on('error', () => {});
+    const piped = loom.pipeTo(page, { title: 'x' } as never, broken);
+    assert.equal(await failure(piped), 'Missing value for slot "rows"');
+    assert.equal(broken.destroyed, true);
+
+    // WHATWG writable streams: writes wait until the writer is ready
+    const received: string[] = [];
+    const web = new WritableStream<string>(
+      { write: async chunk => void received.push(chunk) },
+      new CountQueuingStrategy({ highWaterMark: 1 })
+    );
+    await loom.pipeTo(page, params, web, undefined, { chunkSize: 4 });
+    assert.equal(received.join(''), expected);
+    assert.ok(received.length > 3);
+    let aborted: unknown;
+    const webBroken = new WritableStream<string>({ abort: reason => void (aborted = reason) });
+    const webFailure = await loom.pipeTo(page, { title: 'x' } as never, webBroken).catch(e => e);
+    assert.equal(aborted, webFailure);
+    assert.match(String(webFailure), /Missing value for slot "rows"/);
+
+    // instances stream with their policy
+    const app = loom.createLoom({ filters: { shout: (v: unknown) => `${String(v)}!` } });
+    const shout = app.compile('{a|shout}');
+    assert.deepEqual(await collect(app.renderStream(shout, { a: Promise.resolve(1) })), ['1!']);
+
+    if (false as boolean) {
+      // @ts-expect-error streamed params are typed
+      loom.renderStream(page, { ...params, rows: 'a' });
+    }
+  })()
+);
+
+/* ================================================================
+ * 25) contextual HTML escaping
+ * ================================================================ */
+
+{
+  const html: TemplatePolicy = { escape: 'html' };
+  const evil = `"'<x>&`;
+
+  // element content and quoted attributes are entity-encoded
+  const card = loom.compile(`<p title="{title}" class='{cls}'>{body}</p><!-- {note} -->`);
+  assert.equal(
+    card.render({ title: evil, cls: evil, body: evil, note: evil }, html),
+    '<p title="&quot;&#39;&lt;x&gt;&amp;" class=\'&quot;&#39;&lt;x&gt;&amp;\'>' +
+      '&quot;&#39;&lt;x&gt;&amp;</p><!-- &quot;&#39;&lt;x&gt;&amp; -->'
+  );
+  // unquoted attribute values cannot be ended by spaces or markup
+  assert.equal(
+    loom.compile('<td width={w}>').render({ w: '1 onclick=x>' }, html),
+    '<td width=1&#x20;onclick&#x3d;x&#x3e;>'
+  );
+  // escaping is opt-in, and a call can turn it off
+  assert.equal(
+    card.render({ title: '<', cls: '', body: '<', note: '' }),
+    '<p title="<" class=\'\'><</p><!--  -->'
+  );
+  const app = loom.createLoom({ escape: 'html' });
+  assert.equal(app.compile('<b>{x}</b>').render({ x: '<' }), '<b>&lt;</b>');
+  assert.equal(app.compile('<b>{x}</b>').render({ x: '<' }, { escape: 'none' }), '<b><</b>');
+
+  // URL attributes: a whole URL keeps its structure but not an unsafe scheme
+  const link = loom.compile('<a href="{url}">{label}</a> <img src={src}>');
+  assert.equal(
+    link.render({ url: 'https://example.com/a b?q="x"&y=1', label: 'go', src: '/i.png' }, html),
+    '<a href="https://example.com/a%20b?q=%22x%22&amp;y=1">go</a> <img src=&#x2f;i.png>'
+  );
+  const unsafe = ['javascript:alert(1)', ' JaVaScRiPt:x', 'java\tscript:x', 'data:text/html,x'];
+  for (const url of unsafe) {
+    assert.equal(
+      link.render({ url, label: '', src: '' }, html),
+      '<a href="about:invalid#loomstr"></a> <img src=>'
+    );
+  }
+  // a slot later in the URL is encoded as one component
+  assert.equal(
+    loom.compile('<a href="/search?q={q}&page={page}">').render({ q: 'a&b=c d', page: 2 }, html),
+    '<a href="/search?q=a%26b%3Dc%20d&page=2">'
+  );
+  // srcset: every candidate's URL is checked, including those after a comma in the template
+  const srcset = loom.compile('<img srcset="{set}"><img srcset="/a.png 1x, {hi} 2x">');
+  assert.equal(
+    srcset.render({ set: '/a.png 1x, javascript:alert(1) 2x', hi: '/b.png' }, html),
+    '<img srcset="/a.png 1x, about:invalid#loomstr 2x"><img srcset="/a.png 1x, /b.png 2x">'
+  );
+  assert.equal(
+    srcset.render({ set: 'https://x/a.png 480w,https://x/b.png', hi: 'javascript:x' }, html),
+    '<img srcset="https://x/a.png 480w,https://x/b.png">' +
+      '<img srcset="/a.png 1x, about:invalid#loomstr 2x">'
+  );
+
+  // scripts: values become JavaScript literals, or string contents inside quotes
+  const code = `<script>const data = {data}; const name = '{name}';</script>`;
+  const button = `<button onclick="pick({id}, '{name}')">{name}</button>`;
+  const script = loom.compile(`${code}${button}` as const);
+  assert.equal(
+    script.render({ data: { html: '</script><x>' }, name: `O'Hara\n</script>`, id: 7 }, html),
+    `<script>const data = {"html":"\\u003c/script\\u003e\\u003cx\\u003e"}; ` +
+      `const name = 'O\\u0027Hara\\u000a\\u003c/script\\u003e';</script>` +
+      `<button onclick="pick(7, 'O\\u0027Hara\\u000a\\u003c/script\\u003e')">` +
+      `O&#39;Hara\n&lt;/script&gt;</button>`
+  );
+
+  // SafeString values and |raw are output as they are
+  const page = loom.compile('<div>{intro|raw}</div><div>{footer}</div><a href="{url|raw}">');
+  assert.equal(
+    page.render({ intro: '<b>hi</b>', footer: new SafeString('<hr>'), url: 'javascript:;' }, html),
+    '<div><b>hi</b></div><div><hr></div><a href="javascript:;">'
+  );
+  assert.equal(
+    page.render({ intro: '<b>', footer: '<hr>', url: 'x' }),
+    '<div><b></div><div><hr></div><a href="x">'
+  );
+
+  // contexts that cannot be escaped are refused, unless the value is marked safe
+  const tag = loom.compile('<div {attrs} style="color: {color}"><style>{css}</style>');
+  const hidden = new SafeString('hidden');
+  assert.throws(
+    () => tag.render({ attrs: 'hidden', color: 'red', css: '' }, html),
+    /Cannot escape slot "attrs" inside the tag <div>/
+  );
+  assert.throws(
+    () => tag.render({ attrs: hidden, color: 'red', css: '' }, html),
+    /Cannot escape slot "color" in a style attribute/
+  );
+  assert.throws(
+    () => tag.render({ attrs: hidden, color: new SafeString('red'), css: '' }, html),
+    /Cannot escape slot "css" in a style element/
+  );
+  assert.equal(
+    tag.render({ attrs: hidden, color: new SafeString('red'), css: new SafeString('b{}') }, html),
+    '<div hidden style="color: red"><style>b{}</style>'
+  );
+
+  // a slot right after `<` or `</` would name the tag, on every render path
+  const named = loom.compile('<{tag}>x</{end}>');
+  const onerror = { tag: 'img src=x onerror=alert(1)', end: 'b' };
+  assert.throws(() => named.render(onerror, html), /Cannot escape slot "tag" inside the tag <…>/);
+  assert.throws(
+    () => loom.compile(named.source, { codegen: true }).render(onerror, html),
+    /Cannot escape slot "tag" inside the tag <…>/
+  );
+  const safeTag = { tag: new SafeString('b'), end: 'b' };
+  assert.throws(() => named.render(safeTag, html), /Cannot escape slot "end" inside the tag <\/…>/);
+  assert.equal(named.render({ ...safeTag, end: new SafeString('b') }, html), '<b>x</b>');
+
+  // srcdoc is decoded into a live document, so entity-encoding is not enough
+  const frame = loom.compile('<iframe srcdoc="{doc}"></iframe>');
+  assert.throws(
+    () => frame.render({ doc: '<script>alert(1)</script>' }, html),
+    /Cannot escape slot "doc" in a srcdoc attribute/
+  );
+  assert.equal(
+    frame.render({ doc: new SafeString('&lt;p&gt;hi') }, html),
+    '<iframe srcdoc="&lt;p&gt;hi"></iframe>'
+  );
+
+  // sections: loop bodies and branches keep their context; ambiguous sections are refused
+  const row = '<li class="{#if item.on}on{#else}off{/if}">{item.name}</li>';
+  const list = loom.compile(`<ul>{#each items as item}${row}{#else}{empty}{/each}</ul>` as const);
+  const items = [{ on: true, name: '<a>' }, { on: false, name: '&' }];
+  const expected = '<ul><li class="on">&lt;a&gt;</li><li class="off">&amp;</li></ul>';
+  assert.equal(list.render({ items, empty: '' }, html), expected);
+  assert.throws(
+    () => loom.compile('{#if open}<a href="{/if}{url}">').render({ open: true, url: 'x' }, html),
+    /the branches of \{#if open\} end in different HTML contexts/
+  );
+  assert.throws(
+    () => loom.compile('{#each xs as x}<b title="{x}{/each}').render({ xs: [] }, html),
+    /\{#each xs\} does not end in the HTML context it starts in/
+  );
+
+  // every render path escapes the same way
+  const params = { items, empty: '' };
+  for (const codegen of [true, 'closures'] as const) {
+    assert.equal(loom.compile(list.source, { codegen }).render(params, html), expected);
+  }
+  assert.equal(loom.renderer(list, html)(params), expected);
+  assert.equal(loom.bind(list, { empty: '' }, html).render({ items }), expected);
+  const sink = makeSink();
+  loom.formatTo(list, params, html, sink);
+  assert.equal(sink.toString(), expected);
+  // parts carry the values unescaped
+  assert.deepEqual(card.toParts({ title: '<', cls: '', body: '', note: '' }, html).values[0], '<');
+  pending.push(
+    (async () => {
+      const later = { items: Promise.resolve(items), empty: '' };
+      assert.equal(await list.renderAsync(later, html), expected);
+      let streamed = '';
+      for await (const chunk of loom.renderStream(list, params, html, { chunkSize: 4 })) {
+        streamed += chunk;
+      }
+      assert.equal(streamed, expected);
+      const joined = loom.compile('<p>{xs|join#"; "}</p>');
+      let out = '';
+      for await (const chunk of loom.renderStream(joined, { xs: ['<', '&'] }, html)) out += chunk;
+      assert.equal(out, '<p>&lt;; &amp;</p>');
+    })()
+  );
+}
+
+/* ================================================================
+ * 26) parameterised SQL
+ * ================================================================ */
+
+{
+  const find = loom.compile(
+    'SELECT {cols|ident} FROM {table|ident} WHERE id IN ({ids}) AND name = {name}'
+  );
+  const params = { cols: ['id', 'full"name'], table: 'app.users', ids: [1, 2], name: "O'Hara" };
+
+  // values are bound, never interpolated; lists expand, identifiers are quoted
+  assert.deepEqual(loom.sql(find, params), {
+    text: 'SELECT "id", "full""name" FROM "app"."users" WHERE id IN ($1, $2) AND name = $3',
+    values: [1, 2, "O'Hara"],
+  });
+  assert.deepEqual(loom.sql(find, params, undefined, { dialect: 'mysql' }), {
+    text: 'SELECT `id`, `full"name` FROM `app`.`users` WHERE id IN (?, ?) AND name = ?',
+    values: [1, 2, "O'Hara"],
+  });
+  assert.deepEqual(loom.sql(find, params, undefined, { dialect: 'oracle' }), {
+    text:
+      'SELECT "id", "full""name" FROM "app"."users" WHERE id IN (:ids, :ids_2) AND name = :name',
+    values: [1, 2, "O'Hara"],
+    named: { ids: 1, ids_2: 2, name: "O'Hara" },
+  });
+  assert.equal(
+    loom.sql(find, params, undefined, { dialect: 'sqlite', placeholder: 'numbered' }).text,
+    'SELECT "id", "full""name" FROM "app"."users" WHERE id IN ($1, $2) AND name = $3'
+  );
+
+  // filters and sections run as for render; values keep their types
+  const row = '({row.a}, {row.b|upper}){#unless @last}, {/unless}';
+  const insert = loom.compile(`INSERT INTO t VALUES {#each rows as row}${row}{/each}` as const);
+  const at = new Date(0);
+  assert.deepEqual(
+    loom.sql(insert, { rows: [{ a: at, b: 'x' }, { a: null, b: 'y' }] }, undefined, {
+      placeholder: 'named',
+    }),
+    {
+      text: 'INSERT INTO t VALUES (:row_a, :row_b), (:row_a_2, :row_b_2)',
+      values: [at, 'X', null, 'Y'],
+      named: { row_a: at, row_b: 'X', row_a_2: null, row_b_2: 'Y' },
+    }
+  );
+
+  // raw fragments are written as they are; bad lists and identifiers are refused
+  const order = loom.compile('SELECT * FROM t ORDER BY {column|ident} {direction|raw}');
+  assert.equal(
+    loom.sql(order, { column: 'created', direction: 'DESC' }).text,
+    'SELECT * FROM t ORDER BY "created" DESC'
+  );
+  assert.throws(
+    () => loom.sql(find, { ...params, ids: [] }),
+    /sql: empty list for slot "ids" cannot be expanded/
+  );
+  assert.throws(
+    () => loom.sql(find, { ...params, table: 'app..users' }),
+    /sql: invalid identifier "app\.\.users"/
+  );
+  const incomplete = { cols: 'id', table: 't', ids: [1] } as never;
+  assert.throws(() => loom.sql(find, incomplete), /Missing value for slot "name"/);
+
+  // slots inside quoted literals are refused; quotes that open and close between slots are not
+  const quoted = loom.compile("SELECT * FROM t WHERE a = 'x''{a}' AND b = {b}");
+  assert.throws(
+    () => loom.sql(quoted, { a: 1, b: 2 }),
+    /sql: slot "a" is inside a string literal; remove the quotes to bind it/
+  );
+  const closed = loom.compile("SELECT * FROM t WHERE a = 'it''s' AND b = {b} AND c = '{c|raw}'");
+  assert.deepEqual(loom.sql(closed, { b: 2, c: 'x' }), {
+    text: "SELECT * FROM t WHERE a = 'it''s' AND b = $1 AND c = 'x'",
+    values: [2],
+  });
+  const escaped = loom.compile("SELECT * FROM t WHERE a = 'it\\\\'s' AND b = {b}");
+  assert.throws(() => loom.sql(escaped, { b: 2 }), /slot "b" is inside a string literal/);
+  assert.deepEqual(loom.sql(escaped, { b: 2 }, undefined, { dialect: 'mysql' }).values, [2]);
+
+  // comments, quoted identifiers, dollar quotes and E'' strings are followed as well
+  const mysql = { dialect: 'mysql' } as const;
+  const noted = loom.compile("SELECT 1 -- don't\nWHERE a = {a} /* it's */ AND \"it's\" = {b}");
+  assert.deepEqual(loom.sql(noted, { a: 1, b: 2 }).values, [1, 2]);
+  const commented = loom.compile('SELECT 1 /* {a} */ WHERE b = {b}');
+  assert.throws(() => loom.sql(commented, { a: 1, b: 2 }), /slot "a" is inside a comment/);
+  const hashed = loom.compile("SELECT 1 # it's\nWHERE b = {b}");
+  assert.deepEqual(loom.sql(hashed, { b: 2 }, undefined, mysql).values, [2]);
+  const column = loom.compile('SELECT "{c}" FROM t');
+  assert.throws(
+    () => loom.sql(column, { c: 'x' }),
+    /slot "c" is inside a quoted identifier; use the ident filter instead of quotes/
+  );
+  const dollars = loom.compile("SELECT $$it's$$, $fn$ $$ {a} $fn$ WHERE b = {b}");
+  assert.throws(() => loom.sql(dollars, { a: 1, b: 2 }), /slot "a" is inside a string literal/);
+  const body = loom.compile("SELECT $q$it's$q$, a$b$c WHERE b = {b}");
+  assert.deepEqual(loom.sql(body, { b: 2 }).values, [2]);
+  assert.throws(() => loom.sql(body, { b: 2 }, undefined, mysql), /slot "b" is inside/);
+  const prefixed = loom.compile("SELECT E'it\\\\'s', 'a''' WHERE b = {b}");
+  assert.deepEqual(loom.sql(prefixed, { b: 2 }).values, [2]);
+  const sqlite = { dialect: 'sqlite' } as const;
+  assert.throws(() => loom.sql(prefixed, { b: 2 }, undefined, sqlite), /string literal/);
+
+  // an optional slot without a value binds null; '' and fallbacks bind as given
+  const ids = '{#each rows as row}{row.id?}{#unless @last}, {/unless}{/each}';
+  const update = loom.compile(
+    `UPDATE t SET note = {note?}, tag = {tag ?? "none"} WHERE id IN (${ids})` as const
+  );
+  assert.deepEqual(loom.sql(update, { rows: [{ id: 1 }, {}] }), {
+    text: 'UPDATE t SET note = $1, tag = $2 WHERE id IN ($3, $4)',
+    values: [null, 'none', 1, null],
+  });
+  assert.deepEqual(loom.sql(update, { note: '', tag: null, rows: [] }).values, ['', 'none']);
+
+  // identifiers render as their names outside loom.sql
+  assert.equal(loom.compile('{t|ident}').render({ t: ['a', 'b'] }), 'a, b');
+  assert.ok(find.toParts(params).values[0] instanceof SqlIdentifier);
+
+  // instances apply their policy
+  const app = loom.createLoom({ filters: { cents: (v: number) => Math.round(v * 100) } });
+  const price = app.compile('UPDATE items SET price = {price|cents}');
+  assert.deepEqual(app.sql(price, { price: 1.5 }), {
+    text: 'UPDATE items SET price = $1',
+    values: [150],
+  });
+
+  if (false as boolean) {
+    // @ts-expect-error statement params are typed
+    loom.sql(find, { cols: 'a', table: 't', ids: [] });
+  }
+}
+
+/* ================================================================
+ * 27) secret slots and redacted renders
+ * ================================================================ */
+
+{
+  const login = loom.compile('user {user.name} token {user.token} card {card|secret} pin {pin}');
+  const params = {
+    user: { name: 'ada', token: 'tok_live_abcdef123456' },
+    card: '4111111111111111',
+    pin: 1234,
+  };
+  const policy: TemplatePolicy = { secrets: ['token', /^pi/] };
+  const { user, card, pin } = params;
+
+  // secrets render normally; redacted renders mask them
+  assert.equal(
+    login.render(params, policy),
+    'user ada token tok_live_abcdef123456 card 4111111111111111 pin 1234'
+  );
+  assert.equal(
+    loom.renderRedacted(login, params, policy),
+    'user ada token ******** card ******** pin ********'
+  );
+  assert.equal(
+    loom.renderRedacted(login, params, policy, { strategy: 'last4' }),
+    'user ada token ****3456 card ****1111 pin ********'
+  );
+  assert.equal(
+    loom.renderRedacted(login, params, undefined, {
+      strategy: (text, slot) => `<${slot.name}:${text.length}>`,
+    }),
+    'user ada token tok_live_abcdef123456 card <card:16> pin 1234'
+  );
+  // hashes are keyed HMAC prefixes: equal secrets match across logs, guesses cannot be checked
+  const secretK = loom.compile('{k|secret}');
+  const hashed = loom.renderRedacted(secretK, { k: 'abc' }, undefined, {
+    strategy: 'hash',
+    key: 'k3y',
+  });
+  assert.equal(hashed, 'hmac:d56864edb74c48af');
+  const rekeyed = loom.renderRedacted(secretK, { k: 'abc' }, undefined, {
+    strategy: 'hash',
+    key: new TextEncoder().encode('other'),
+  });
+  assert.ok(rekeyed.startsWith('hmac:') && rekeyed !== hashed);
+  assert.throws(
+    () => loom.renderRedacted(secretK, { k: 'abc' }, undefined, { strategy: 'hash' }),
+    /redact: the 'hash' strategy needs a key/
+  );
+
+  // parts keep other values as they are
+  const parts = loom.toPartsRedacted(login, params, policy);
+  assert.deepEqual(parts.values, ['ada', '********', '********', '********']);
+  assert.deepEqual(parts.chunks, login.toParts(params).chunks);
+
+  // secrets given when compiling, and by instances, add to the call's patterns
+  const compiled = loom.compile('{user.name}:{user.token}', { secrets: ['user.name'] });
+  assert.equal(loom.renderRedacted(compiled, { user }), '********:tok_live_abcdef123456');
+  assert.equal(loom.renderRedacted(compiled, { user }, policy), '********:********');
+  const app = loom.createLoom({ secrets: [/token/] });
+  const line = app.compile('{user.name} {user.token} {pin}', { secrets: ['pin'] });
+  assert.equal(app.renderRedacted(line, { user, pin }), 'ada ******** ********');
+  assert.deepEqual(app.toPartsRedacted(line, { user, pin }, { secrets: ['name'] }).values, [
+    '********',
+    '********',
+    '********',
+  ]);
+
+  // errors raised by a secret slot's filters or transform never carry the value
+  const check = (v: unknown) => {
+    throw new Error(`bad value ${String(v)}`);
+  };
+  const leaky = { filters: { check } };
+  const guarded = loom.compile('{card|secret|check} {user.name}', {
+    filters: leaky.filters,
+  });
+  const withheld = /Failed to evaluate secret slot "card" \(details withheld\)/;
+  const failure = loom.tryRender(guarded, { card, user }, leaky);
+  assert.ok(!failure.ok && withheld.test(failure.error.message));
+  assert.ok(!failure.ok && !failure.error.message.includes('4111'));
+  for (const codegen of [true, 'closures'] as const) {
+    const generated = loom.compile(guarded.source, { codegen, filters: leaky.filters });
+    assert.throws(() => generated.render({ card, user }, leaky), withheld);
+  }
+  const transformed: TemplatePolicy = {
+    ...policy,
+    transform: (slot, v) => {
+      if (slot.name === 'user.token') throw new Error(`cannot use ${String(v)}`);
+      return v;
+    },
+  };
+  assert.throws(() => login.render(params, transformed), /secret slot "user.token"/);
+  const fixed = loom.compile('{user.token|fixed}');
+  const token = { user } as never;
+  assert.throws(() => fixed.render(token, policy), /secret slot "user.token" \(details withheld\)/);
+  assert.throws(() => loom.renderRedacted(fixed, token, policy), /details withheld/);
+  // other slots keep their errors
+  assert.throws(() => fixed.render(token), /fixed: non-numeric value tok_live_abcdef123456/);
+
+  // so are errors of a secret slot's asString, on every render path
+  const leakyString: TemplatePolicy = {
+    ...policy,
+    asString: v => {
+      if (v === 'hunter2') throw new Error(`bad ${String(v)}`);
+      return String(v);
+    },
+  };
+  const pw = loom.compile('<b>{user.name}</b> {password}', { secrets: ['password'] });
+  const pwParams = { user, password: 'hunter2' };
+  const pwWithheld = /secret slot "password" \(details withheld\)/;
+  assert.throws(() => pw.render(pwParams, leakyString), pwWithheld);
+  assert.throws(() => pw.render(pwParams, { ...leakyString, escape: 'html' }), pwWithheld);
+  for (const codegen of [true, 'closures'] as const) {
+    const generated = loom.compile(pw.source, { codegen, secrets: ['password'] });
+    assert.throws(() => generated.render(pwParams, leakyString), pwWithheld);
+    assert.throws(() => generated.render(pwParams, { ...leakyString, escape: 'html' }), pwWithheld);
+  }
+  assert.throws(() => loom.renderRedacted(pw, pwParams, leakyString), pwWithheld);
+  assert.throws(() => loom.toPartsRedacted(pw, pwParams, leakyString), pwWithheld);
+  assert.throws(() => loom.compileFn(pw.source, {}, leakyString)(pwParams), /bad hunter2/);
+
+  // invalid identifiers of secret slots are not repeated in the error
+  const table = loom.compile('SELECT * FROM {table|ident}');
+  assert.throws(
+    () => loom.sql(table, { table: 'a..b' }, { secrets: ['table'] }),
+    /^Error: Failed to evaluate secret slot "table" \(details withheld\)$/
+  );
+  assert.throws(
+    () => loom.sql(table, { table: 'a..b' }),
+    /invalid identifier "a\.\.b" for slot "table"/
+  );
+
+  // loop aliases of a secret collection are secret too, on every render path
+  const each = loom.compile('{#each password as p}[{p}]{/each}');
+  const passwords = { password: ['hunter2'] };
+  assert.equal(loom.renderRedacted(each, passwords, { secrets: ['password'] }), '[********]');
+  assert.equal(loom.renderRedacted(each, passwords), '[hunter2]');
+  const nested = loom.compile('{#each rows|secret as r}{#each r.keys as k}{k}{/each}{/each}');
+  assert.equal(loom.renderRedacted(nested, { rows: [{ keys: ['a', 'b'] }] }), '****************');
+  const tokens = loom.compile('{#each tokens as t}{t|fixed#1}{/each}');
+  const tokenPolicy: TemplatePolicy = { secrets: [/token/i] };
+  const tokenParams = { tokens: ['tok-xyz'] as never };
+  const aliasWithheld = /secret slot "t" \(details withheld\)/;
+  assert.throws(() => tokens.render(tokenParams, tokenPolicy), aliasWithheld);
+  for (const codegen of [true, 'closures'] as const) {
+    const generated = loom.compile(tokens.source, { codegen });
+    assert.throws(() => generated.render(tokenParams, tokenPolicy), aliasWithheld);
+  }
+  assert.throws(() => loom.renderRedacted(tokens, tokenParams, tokenPolicy), aliasWithheld);
+  assert.throws(() => tokens.render(tokenParams), /fixed: non-numeric value tok-xyz/);
+
+  pending.push(
+    (async () => {
+      const later = { user: Promise.resolve(user), card };
+      await assert.rejects(guarded.renderAsync(later, leaky), withheld);
+      const rejects = async (v: unknown) => Promise.reject(new Error(String(v)));
+      const asyncCheck = { filters: { check: rejects } };
+      await assert.rejects(guarded.renderAsync(later, asyncCheck), withheld);
+      await assert.rejects(tokens.renderAsync(tokenParams, tokenPolicy), aliasWithheld);
+      await assert.rejects(pw.renderAsync(pwParams, leakyString), pwWithheld);
+      await assert.rejects(
+        (async () => {
+          for await (const chunk of loom.renderStream(pw, pwParams, leakyString)) void chunk;
+        })(),
+        pwWithheld
+      );
+      const aliasStream = loom.renderStream(tokens, tokenParams, tokenPolicy);
+      await assert.rejects(
+        (async () => {
+          for await (const chunk of aliasStream) void chunk;
+        })(),
+        aliasWithheld
+      );
+      const stream = loom.renderStream(guarded, later, asyncCheck);
+      await assert.rejects(
+        (async () => {
+          for await (const chunk of stream) void chunk;
+        })(),
+        withheld
+      );
+    })()
+  );
+}
+
+/* ================================================================
+ * 28) locale-aware Intl filters
+ * ================================================================ */
+
+{
+  const when = new Date(Date.UTC(2024, 2, 5, 14, 30));
+  const de: TemplatePolicy = { locale: 'de-DE', timeZone: 'Europe/Berlin' };
+  const us: TemplatePolicy = { locale: 'en-US', timeZone: 'UTC' };
+  // ICU separates some parts with no-break spaces, which vary between versions
+  const plain = (text: string) => text.replace(/\s/g, ' ');
+
+  // numbers, currencies and percentages follow the policy locale
+  const price = loom.compile('{n|number#2} {amount|currency#EUR} {ratio|percent}');
+  const values = { n: 1234.5, amount: 1234.5, ratio: 0.256 };
+  assert.equal(plain(price.render(values, de)), '1.234,50 1.234,50 € 26 %');
+  assert.equal(price.render(values, us), '1,234.50 €1,234.50 26%');
+  assert.equal(loom.compile('{n|number}').render({ n: 10n ** 6n }, us), '1,000,000');
+  assert.equal(plain(loom.compile('{n|currency#USD,code}').render({ n: 5 }, us)), 'USD 5.00');
+  assert.equal(loom.compile('{r|percent#1}').render({ r: 0.1234 }, us), '12.3%');
+
+  // dates and times use the policy time zone
+  const stamp = loom.compile('{when|date} {when|date#short} {when|time} {when|datetime#long}');
+  assert.equal(
+    plain(stamp.render({ when }, us)),
+    'Mar 5, 2024 3/5/24 2:30 PM March 5, 2024 at 2:30 PM'
+  );
+  assert.equal(
+    plain(stamp.render({ when }, de)),
+    '05.03.2024 05.03.24 15:30 5. März 2024 um 15:30'
+  );
+  const tokyo: TemplatePolicy = { ...us, timeZone: 'Asia/Tokyo' };
+  assert.equal(plain(loom.compile('{t|time}').render({ t: when.getTime() }, tokyo)), '11:30 PM');
+  assert.equal(loom.compile('{t|date}').render({ t: '2024-03-05T14:30:00Z' }, us), 'Mar 5, 2024');
+
+  // relative times take a unit for numbers, and pick one for dates
+  const relative = loom.compile('{d|relative#day} {d|relative#day,auto}');
+  assert.equal(relative.render({ d: 1 }, us), 'in 1 day tomorrow');
+  assert.equal(loom.compile('{h|relative#hour}').render({ h: -2 }, de), 'vor 2 Stunden');
+  const soon = new Date(Date.now() + 3 * 86400_000 + 60_000);
+  assert.equal(loom.compile('{at|relative}').render({ at: soon }, us), 'in 3 days');
+  assert.equal(loom.compile('{at|relative#hour}').render({ at: soon }, us), 'in 72 hours');
+
+  // lists
+  const tags = loom.compile('{tags|list} / {tags|list#disjunction}');
+  assert.equal(tags.render({ tags: ['a', 'b', 'c'] }, us), 'a, b, and c / a, b, or c');
+  assert.equal(tags.render({ tags: ['a', 'b', 'c'] }, de), 'a, b und c / a, b oder c');
+
+  // locales from requests only keep the recently used formatters; dropped ones are rebuilt
+  const counted = loom.compile('{n|number} {n|plural#one:"# item",other:"# items"}');
+  for (let i = 0; i < 300; i++) {
+    assert.equal(counted.render({ n: 1000 }, { locale: `de-x-r${i}` }), '1.000 1.000 items');
+  }
+  assert.equal(counted.render({ n: 1000 }, de), '1.000 1.000 items');
+  assert.equal(counted.render({ n: 1 }, us), '1 1 item');
+
+  // instances and layered policies carry the locale; custom filters still win
+  const app = loom.createLoom({ locale: 'de-DE', timeZone: 'UTC' });
+  const total = app.compile('{n|number#1}');
+  assert.equal(total.render({ n: 2.5 }), '2,5');
+  assert.equal(total.render({ n: 2.5 }, { locale: 'en-US' }), '2.5');
+  const custom = { filters: { number: (v: unknown) => `#${String(v)}` } };
+  assert.equal(total.render({ n: 2.5 }, custom), '#2.5');
+  assert.equal(loom.compile('{n|number#1}').render({ n: 2.5 }, loom.builtinPolicy), '2.5');
+
+  // bad values and arguments
+  assert.throws(() => loom.compile('{n|number}').render({ n: 'x' as never }), /non-numeric/);
+  assert.throws(() => loom.compile('{d|date}').render({ d: 'soon' }), /date: invalid date soon/);
+  assert.throws(() => loom.compile('{d|date#tiny}').render({ d: when }), /unknown style "tiny"/);
+  assert.throws(() => loom.compile('{d|relative}').render({ d: 3 }), /a unit is needed/);
+  assert.throws(() => loom.compile('{d|relative#fortnight}').render({ d: 3 }), /unknown unit/);
+  assert.throws(() => loom.compile('{t|list}').render({ t: 'a' as never }), /must be an array/);
+  assert.throws(() => loom.compile('{n|percent#x}'), LoomParseError);
+  assert.throws(() => loom.compile('{n|currency}'), LoomParseError);
+
+  if (false as boolean) {
+    // @ts-expect-error currency takes a number
+    loom.compile('{n|currency#EUR}').render({ n: '5' });
+    // @ts-expect-error list takes an array
+    loom.compile('{t|list}').render({ t: 'a' });
+  }
+}
+
+/* ================================================================
+ * 29) plural, ordinal and select cases
+ * ================================================================ */
+
+{
+  const files = loom.compile('{count|plural#=0:"no files",one:"# file",other:"# files"}');
+  assert.equal(files.render({ count: 0 }), 'no files');
+  assert.equal(files.render({ count: 1 }), '1 file');
+  assert.equal(files.render({ count: 1234 }, { locale: 'en-US' }), '1,234 files');
+  assert.equal(files.render({ count: 1234 }, { locale: 'de-DE' }), '1.234 files');
+  assert.equal(files.render({ count: 2n }), '2 files');
+
+  // categories follow the policy locale: Polish has few and many
+  const pl = loom.compile('{n|plural#one:"# plik",few:"# pliki",many:"# plików",other:"# pliku"}');
+  const polish = [1, 3, 5, 22, 1.5].map(n => pl.render({ n }, { locale: 'pl' }));
+  assert.deepEqual(polish, ['1 plik', '3 pliki', '5 plików', '22 pliki', '1,5 pliku']);
+
+  const place = loom.compile('{n|ordinal#one:#st,two:#nd,few:#rd,other:#th}');
+  const places = [1, 2, 3, 4, 11, 22].map(n => place.render({ n }, { locale: 'en' }));
+  assert.deepEqual(places, ['1st', '2nd', '3rd', '4th', '11th', '22nd']);
+
+  const replied = loom.compile('{who|select#female:"She",male:"He",other:"They"} replied');
+  assert.equal(replied.render({ who: 'female' }), 'She replied');
+  assert.equal(replied.render({ who: 'unknown' }), 'They replied');
+
+  // cases combine with sections, other filters and every render path
+  const inbox = loom.compile(
+    '{name|upper} has {count|plural#one:"a message",other:"# messages"}{#if count} waiting{/if}'
+  );
+  assert.equal(inbox.render({ name: 'ada', count: 1 }), 'ADA has a message waiting');
+  assert.equal(inbox.render({ name: 'bo', count: 0 }), 'BO has 0 messages');
+  const fast = loom.compile(inbox.source, { codegen: true });
+  assert.equal(fast.render({ name: 'cy', count: 3 }), 'CY has 3 messages waiting');
+  pending.push(
+    (async () => {
+      assert.equal(await inbox.renderAsync({ name: 'di', count: 2 }), 'DI has 2 messages waiting');
+    })()
+  );
+
+  // bad cases and values
+  const bad = (source: string, params: object) =>
+    assert.throws(() => loom.compile(source).render(params as never));
+  bad('{n|plural#one:"# file"}', { n: 1 });
+  bad('{n|plural#"# files"}', { n: 1 });
+  bad('{n|plural#lots:x,other:y}', { n: 1 });
+  bad('{n|plural#one:x,one:y,other:z}', { n: 1 });
+  bad('{n|plural#other:x}', { n: 'many' });
+  bad('{n|select#a:x}', { n: 'a' });
+  const other = loom.compile('{n|plural#other:x}');
+  assert.throws(() => other.render({ n: 'x' as never }), /plural: non-numeric value x/);
+
+  // cases are checked when compiling, at the bad case (the filter when one is missing)
+  const caseError = (source: string) => {
+    try {
+      loom.compile(source);
+      return 'ok';
+    } catch (e) {
+      assert.ok(e instanceof LoomParseError);
+      return `${e.code} @${e.range.start.column}: ${e.reason}`;
+    }
+  };
+  assert.match(caseError('{n|plural#one:x}'), /^INVALID_FILTER_ARGS @4: .*"other" case/);
+  assert.match(
+    caseError('{n|ordinal#one:x,three:y,other:z}'),
+    /^INVALID_FILTER_ARGS @18: .*ordinal: invalid case key "three"/
+  );
+  assert.match(
+    caseError('{n|select#a:x,a:y,other:z}'),
+    /^INVALID_FILTER_ARGS @15: .*select: duplicate case "a"/
+  );
+  assert.match(
+    caseError('{#if n|select#yes,other:z}x{/if}'),
+    /^INVALID_FILTER_ARGS @15: .*select: case "yes" needs a key/
+  );
+  assert.equal(caseError('{n|plural#other:x|upper}'), 'ok');
+
+  // ## is a literal #
+  const numbered = loom.compile('{n|plural#one:"### file",other:"## of files: #"}');
+  assert.equal(numbered.render({ n: 1 }), '#1 file');
+  assert.equal(numbered.render({ n: 1200 }, { locale: 'en' }), '# of files: 1,200');
+
+  if (false as boolean) {
+    // @ts-expect-error the count is a required number
+    files.render({});
+    // @ts-expect-error the count is a number
+    files.render({ count: '3' });
+    // @ts-expect-error select takes a string
+    replied.render({ who: 1 });
+  }
+}
+
+/* ================================================================
+ * 30) message catalogs
+ * ================================================================ */
+
+{
+  const messages = loom.catalog({
+    inbox: {
+      en: '{name}, you have {count|plural#one:"# new message",other:"# new messages"}',
+      de: '{name}, du hast {count|plural#one:"# neue Nachricht",other:"# neue Nachrichten"}',
+      'de-AT': '{name}, Sie haben {count|plural#one:"# neue Nachricht",other:"# neue Nachrichten"}',
+    },
+    total: {
+      en: loom.compile('Total: {amount|number#2}'),
+      de: 'Summe: {amount|number#2}',
+    },
+  });
+
+  // lookups fall back through parent locales to the source locale
+  assert.deepEqual(messages.fallbacks('de-AT'), ['de-AT', 'de', 'en']);
+  assert.deepEqual(messages.fallbacks('zh_Hant_TW'), ['zh-Hant-TW', 'zh-Hant', 'zh', 'en']);
+  assert.deepEqual(messages.fallbacks('en-GB'), ['en-GB', 'en']);
+  assert.equal(messages.resolve('total', 'de-AT').locale, 'de');
+  assert.equal(messages.resolve('inbox', 'DE-at').locale, 'de-AT');
+  assert.equal(messages.resolve('total', 'fr-CA').locale, 'en');
+  assert.equal(messages.get('total', 'de-CH').source, 'Summe: {amount|number#2}');
+  assert.deepEqual(messages.ids, ['inbox', 'total']);
+  assert.deepEqual(messages.locales, ['en', 'de', 'de-AT']);
+
+  // renders use the locale the message was found for
+  assert.equal(
+    messages.render('inbox', 'de-AT', { name: 'Ada', count: 1 }),
+    'Ada, Sie haben 1 neue Nachricht'
+  );
+  assert.equal(messages.render('total', 'de-AT', { amount: 1234.5 }), 'Summe: 1.234,50');
+  assert.equal(messages.render('total', 'fr', { amount: 1234.5 }), 'Total: 1,234.50');
+  assert.equal(
+    messages.render('total', 'de', { amount: 1234.5 }, { locale: 'en-US' }),
+    'Summe: 1,234.50'
+  );
+  assert.deepEqual(messages.check(), { ok: true, issues: [] });
+
+  // `_` in locale tags is read as `-`, in entries and lookups alike
+  const hi = loom.catalog({ hi: { en: 'Hi {name}', pt_BR: 'Oi {name}' } });
+  assert.equal(hi.render('hi', 'pt_BR', { name: 'Ana' }), 'Oi Ana');
+  assert.equal(hi.render('hi', 'pt-BR', { name: 'Ana' }), 'Oi Ana');
+  assert.equal(hi.resolve('hi', 'pt-br').locale, 'pt-BR');
+  assert.deepEqual(hi.locales, ['en', 'pt-BR']);
+
+  // translations are checked against the source message
+  const drifted = loom.catalog(
+    {
+      greet: {
+        fr: 'Bonjour {user.name}{#if admin} (admin){/if}',
+        en: 'Hello {user.name|upper}',
+        es: 'Hola {user.first}{#if admin|json} (admin){/if}',
+      },
+      bye: { fr: 'Au revoir', de: 'Tschüss {name|trim}' },
+    },
+    { sourceLocale: 'fr' }
+  );
+  assert.deepEqual(drifted.check(), {
+    ok: false,
+    issues: [
+      { id: 'greet', locale: 'en', kind: 'missing-slot', name: 'admin' },
+      { id: 'greet', locale: 'en', kind: 'unknown-filter', name: 'upper' },
+      { id: 'greet', locale: 'es', kind: 'missing-slot', name: 'user.name' },
+      { id: 'greet', locale: 'es', kind: 'unknown-slot', name: 'user.first' },
+      { id: 'greet', locale: 'es', kind: 'unknown-filter', name: 'json' },
+      { id: 'bye', locale: 'de', kind: 'unknown-slot', name: 'name' },
+      { id: 'bye', locale: 'de', kind: 'unknown-filter', name: 'trim' },
+    ],
+  });
+  const greeting = drifted.render('greet', 'fr-BE', { user: { name: 'Ada' }, admin: true });
+  assert.equal(greeting, 'Bonjour Ada (admin)');
+
+  // construction errors
+  assert.throws(() => loom.catalog({ a: { de: 'x' } }), /message "a" has no "en" source/);
+  assert.throws(() => messages.get('nope' as never, 'en'), /unknown message "nope"/);
+  const angled = loom.compile('<<x>>', { delimiters: ['<<', '>>'] });
+  assert.throws(() => loom.catalog({ a: { en: angled } } as never), /uses different delimiters/);
+  assert.throws(() => loom.catalog({ a: { en: '{x' } }), LoomParseError);
+
+  if (false as boolean) {
+    // @ts-expect-error messages are typed by their source-locale entry
+    messages.render('total', 'de', { amount: '1' });
+    // @ts-expect-error every slot of the source is required
+    messages.render('inbox', 'de', { count: 1 });
+    // @ts-expect-error unknown message ids
+    messages.get('nope', 'de');
+  }
+}
+
+void Promise.all(pending).then(() => console.log('unit.test.ts passed ✅'));